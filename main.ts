@@ -1,5 +1,5 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, ItemView, WorkspaceLeaf } from 'obsidian';
-import { createClient, SupabaseClient, RealtimeChannel } from '@supabase/supabase-js';
+import { App, Editor, FuzzySuggestModal, MarkdownRenderChild, MarkdownView, Menu, Modal, Notice, Plugin, PluginSettingTab, Setting, TAbstractFile, TFile, TFolder, ItemView, WorkspaceLeaf, debounce, normalizePath, requestUrl } from 'obsidian';
+import { createClient, SupabaseClient, RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import React from 'react';
 import { createRoot, Root } from 'react-dom/client';
 import {
@@ -10,6 +10,7 @@ import {
 	PointerSensor,
 	useSensor,
 	useSensors,
+	useDraggable,
 	useDroppable,
 } from '@dnd-kit/core';
 import {
@@ -21,21 +22,113 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 
+type StorageBackendType = 'supabase' | 'vault';
+
+// A Kanban column; `id` is the value stored in Task.status
+interface WorkflowColumn {
+	id: string;
+	name: string;
+	color: string;
+	isDone: boolean;
+}
+
+interface Workflow {
+	id: string;
+	name: string;
+	columns: WorkflowColumn[];
+}
+
+const DEFAULT_WORKFLOW: Workflow = {
+	id: 'default',
+	name: 'Default',
+	columns: [
+		{ id: 'todo', name: 'To Do', color: '#4caf50', isDone: false },
+		{ id: 'in-progress', name: 'In Progress', color: '#2196f3', isDone: false },
+		{ id: 'done', name: 'Done', color: '#3f51b5', isDone: true },
+		{ id: 'blocked', name: 'Blocked', color: '#f44336', isDone: false },
+		{ id: 'cancelled', name: 'Cancelled', color: '#9e9e9e', isDone: true }
+	]
+};
+
 interface ProjectManagerSettings {
+	storageBackend: StorageBackendType;
 	supabaseUrl: string;
 	supabaseKey: string;
+	vaultStorePath: string;
 	defaultProjectPath: string;
 	enableRealtime: boolean;
+	workflows: Workflow[];
+	defaultWorkflowId: string;
+	// Project id -> workflow id; projects not listed use the default workflow
+	projectWorkflows: Record<string, string>;
+	hideSubtasksOnBoard: boolean;
+	// Archived projects are left out of project pickers unless this is on
+	showArchivedProjects: boolean;
+	autoCompleteParent: boolean;
+	syncFrontmatter: boolean;
+	checkboxSync: boolean;
+	// Folder watched by the background checkbox sync; empty for the whole vault
+	checkboxSyncFolder: string;
+	kanbanSwimlanes: SwimlaneGrouping;
+	// Vault files used as the body of new notes; empty for a plain heading
+	taskNoteTemplate: string;
+	projectNoteTemplate: string;
+	// Where new notes go, relative to defaultProjectPath, without the .md extension
+	taskNotePath: string;
+	projectNotePath: string;
+	githubToken: string;
+	// Base URL of the GitHub REST API; can point at GitHub Enterprise or a local fake
+	githubApiUrl: string;
 }
 
 const DEFAULT_SETTINGS: ProjectManagerSettings = {
+	storageBackend: 'supabase',
 	supabaseUrl: '',
 	supabaseKey: '',
+	vaultStorePath: 'Projects/project-manager.json',
 	defaultProjectPath: 'Projects',
-	enableRealtime: true
+	enableRealtime: true,
+	workflows: [DEFAULT_WORKFLOW],
+	defaultWorkflowId: DEFAULT_WORKFLOW.id,
+	projectWorkflows: {},
+	hideSubtasksOnBoard: false,
+	showArchivedProjects: false,
+	autoCompleteParent: false,
+	syncFrontmatter: true,
+	checkboxSync: false,
+	checkboxSyncFolder: '',
+	kanbanSwimlanes: 'none',
+	taskNoteTemplate: '',
+	projectNoteTemplate: '',
+	taskNotePath: 'Management/{{project}}/{{title}}',
+	projectNotePath: '{{name}}/{{name}}',
+	githubToken: '',
+	githubApiUrl: 'https://api.github.com'
 };
 
 export const VIEW_TYPE_KANBAN = "project-manager-kanban";
+export const VIEW_TYPE_CALENDAR = "project-manager-calendar";
+export const VIEW_TYPE_TIMELINE = "project-manager-timeline";
+export const VIEW_TYPE_OVERVIEW = "project-manager-overview";
+export const VIEW_TYPE_LINKED_TASKS = "project-manager-linked-tasks";
+
+// Frontmatter keys mirrored between a task and its linked note
+const FRONTMATTER_KEYS = ['task_id', 'status', 'priority', 'due', 'project', 'github_repo'];
+
+// A markdown list item with a checkbox: indent and bullet, state, text
+const CHECKBOX_REGEX = /^(\s*(?:[-*+]|\d+[.)])\s+\[)([ xX])(\]\s+)(.*)$/;
+// Stable id marker appended to imported checkbox lines, hidden in reading view
+const CHECKBOX_MARKER_REGEX = /\s*%%pm:([\w-]+)%%\s*$/;
+
+// Spacing between card positions when a column is renumbered
+const POSITION_STEP = 1024;
+
+// How often the in-memory state is reconciled with the backend as a safety net for missed realtime events
+const RECONCILE_INTERVAL_MS = 5 * 60 * 1000;
+
+// Queued changes are retried after this delay, doubling after each failed retry up to the maximum
+const OUTBOX_RETRY_MIN_MS = 30 * 1000;
+const OUTBOX_RETRY_MAX_MS = 5 * 60 * 1000;
 
 interface Project {
 	id: string;
@@ -44,319 +137,3730 @@ interface Project {
 	status: 'active' | 'completed' | 'archived';
 	created_at: string;
 	updated_at: string;
-	markdown_file?: string;
+	markdown_file?: string | null;
+	linked_notes?: NoteLink[];
 	github_repo?: string;
+	// Planned span of the project, shown on the timeline
+	start_date?: string | null;
+	target_date?: string | null;
 }
 
+interface ProjectStats {
+	total: number;
+	done: number;
+	// Task count per status id
+	byStatus: Record<string, number>;
+	overdue: number;
+	// Earliest open task that is due from now on
+	nextDue: (Task & { due_date: string }) | null;
+}
+
+type GitHubIssueState = 'open' | 'closed' | 'merged';
+
+/**
+ * A note linked to a task or project, optionally tagged with what it is for
+ * (spec, meeting, log, ...). linked_notes lists every linked note; markdown_file
+ * stays the main note, which frontmatter sync and "Open Note" use.
+ */
+interface NoteLink {
+	path: string;
+	role?: string;
+}
+
+type NoteLinkFields = Pick<Task, 'markdown_file' | 'linked_notes'>;
+
+// What happens to a project's tasks when the project is deleted
+type ProjectTaskHandling =
+	| { action: 'delete' }
+	| { action: 'unassign' }
+	| { action: 'move'; projectId: string };
+
 interface Task {
 	id: string;
 	title: string;
 	description?: string;
-	status: 'todo' | 'in-progress' | 'done' | 'blocked' | 'cancelled';
+	// Id of a column in the project's workflow
+	status: string;
 	priority: 'low' | 'medium' | 'high' | 'urgent';
-	project_id?: string;
+	project_id?: string | null;
 	created_at: string;
 	updated_at: string;
-	due_date?: string;
-	markdown_file?: string;
-	github_repo?: string;
+	due_date?: string | null;
+	// Optional start of work; with due_date it spans a bar on the timeline
+	start_date?: string | null;
+	markdown_file?: string | null;
+	linked_notes?: NoteLink[];
+	// null clears the repo; undefined would be left out of the update
+	github_repo?: string | null;
+	// Issue or pull request in github_repo this task tracks, with its state and labels as of the last sync
+	github_issue?: number | null;
+	github_state?: GitHubIssueState | null;
+	github_labels?: string[];
+	// Manual ordering within a Kanban column, ascending
+	position?: number;
+	// Manual ordering within the parent's subtask checklist, ascending
+	subtask_position?: number;
+	parent_id?: string | null;
+	// Ids of tasks that must be done before this one can proceed
+	blocked_by?: string[];
+	recurrence?: RecurrenceRule | null;
+	// Note and line of the markdown checkbox this task was imported from
+	source_file?: string;
+	source_line?: number;
 }
 
-export class KanbanView extends ItemView {
-	plugin: ProjectManagerPlugin;
-	root: Root | null = null;
-	selectedProjectId: string | null = null;
+// Repeats a task every `interval` units, counted from its due date or from when it was completed
+interface RecurrenceRule {
+	unit: 'day' | 'week' | 'month';
+	interval: number;
+	basis: 'due_date' | 'completion';
+}
 
-	constructor(leaf: WorkspaceLeaf, plugin: ProjectManagerPlugin) {
-		super(leaf);
-		this.plugin = plugin;
-	}
+const PRIORITIES: Task['priority'][] = ['low', 'medium', 'high', 'urgent'];
 
-	getViewType() {
-		return VIEW_TYPE_KANBAN;
-	}
+type SwimlaneGrouping = 'none' | 'project' | 'priority' | 'due';
 
-	getDisplayText() {
-		if (this.selectedProjectId) {
-			const project = this.plugin.projects.find(p => p.id === this.selectedProjectId);
-			return project ? `Kanban: ${project.name}` : "Project Kanban";
-		}
-		return "Project Kanban";
-	}
+// A horizontal band of the Kanban board
+interface Swimlane {
+	id: string;
+	name: string;
+	tasks: Task[];
+	// Fields a card takes on when dragged into this lane, or null if cards can't be dropped here
+	update: Partial<Task> | null;
+}
 
-	setSelectedProject(projectId: string | null) {
-		this.selectedProjectId = projectId;
-		this.updateBoard();
-	}
+type TaskSortKey = 'due' | 'priority' | 'status' | 'title' | 'updated' | 'created';
+
+// A parsed `pm-tasks` code block or board filter
+interface TaskQuery {
+	projects: string[];
+	statuses: string[];
+	priorities: Task['priority'][];
+	// Due range as written, e.g. "<7d"; resolved against the current date when matching (see parseDueRange)
+	due?: string;
+	// Fields that must be present: note, due, repo, subtasks, blockers, parent, recurring
+	has: string[];
+	repos: string[];
+	// Words or phrases that must appear in the title or description
+	text: string[];
+	sort?: TaskSortKey;
+	sortDescending: boolean;
+	limit?: number;
+	view: 'list' | 'board';
+}
 
-	async onOpen() {
-		const container = this.containerEl.children[1];
-		container.empty();
-		container.createEl("div", { attr: { id: "kanban-root" } });
-		
-		const rootElement = container.querySelector("#kanban-root");
-		if (rootElement) {
-			this.root = createRoot(rootElement);
-			this.updateBoard();
-		}
-	}
+type OutboxTable = 'projects' | 'tasks';
 
-	updateBoard() {
-		if (this.root) {
-			// Force React re-render by creating new object references with timestamp
-			const projects = [...this.plugin.projects];
-			const tasks = [...this.plugin.tasks];
-			
-			this.root.render(React.createElement(KanbanBoard, { 
-				key: `kanban-${Date.now()}`, // Force re-render with unique key
-				plugin: this.plugin,
-				projects: projects,
-				tasks: tasks,
-				selectedProjectId: this.selectedProjectId,
-				onProjectChange: (projectId: string | null) => this.setSelectedProject(projectId)
-			}));
-		}
+interface OutboxChange {
+	table: OutboxTable;
+	action: 'insert' | 'update' | 'delete';
+	recordId: string;
+	payload?: Partial<Project> | Partial<Task>;
+}
+
+// A mutation that could not be written yet and is replayed on reconnect
+interface OutboxEntry extends OutboxChange {
+	id: string;
+	queued_at: string;
+	attempts: number;
+	last_error?: string;
+}
+
+function applyOutboxChange<T extends { id: string }>(records: T[], change: OutboxChange): T[] {
+	switch (change.action) {
+		case 'insert':
+			if (records.some(r => r.id === change.recordId)) return records;
+			return [change.payload as T, ...records];
+		case 'update':
+			return records.map(r => r.id === change.recordId ? { ...r, ...change.payload } : r);
+		case 'delete':
+			return records.filter(r => r.id !== change.recordId);
 	}
+}
 
-	async onClose() {
-		if (this.root) {
-			this.root.unmount();
-		}
+// Board columns are ordered by position, subtask checklists by subtask_position
+type TaskOrderField = 'position' | 'subtask_position';
+
+/**
+ * Orders the cards of a column: cards that were never placed manually come
+ * first (newest first), followed by manually ordered cards by position.
+ */
+function sortTasksByPosition(tasks: Task[], field: TaskOrderField = 'position'): Task[] {
+	return [...tasks].sort((a, b) => {
+		const aPlaced = typeof a[field] === 'number';
+		const bPlaced = typeof b[field] === 'number';
+		if (aPlaced && bPlaced) return (a[field] as number) - (b[field] as number);
+		if (aPlaced !== bPlaced) return aPlaced ? 1 : -1;
+		return b.updated_at.localeCompare(a.updated_at);
+	});
+}
+
+/**
+ * Works out the position for a card inserted at `index` into `column` (which
+ * must not contain the card). When the neighbours leave no room, or some cards
+ * have no position yet, the column is renumbered and the changed positions
+ * are returned in `renumbered`.
+ */
+function planTaskPosition(column: Task[], index: number, field: TaskOrderField = 'position'): { position: number; renumbered: { id: string; position: number }[] } {
+	const before = index > 0 ? column[index - 1][field] : undefined;
+	const after = index < column.length ? column[index][field] : undefined;
+	const unplaced = column.some(task => typeof task[field] !== 'number');
+	const crowded = before !== undefined && after !== undefined && after - before < 1e-6;
+
+	if (!unplaced && !crowded) {
+		let position = POSITION_STEP;
+		if (before !== undefined && after !== undefined) position = (before + after) / 2;
+		else if (before !== undefined) position = before + POSITION_STEP;
+		else if (after !== undefined) position = after - POSITION_STEP;
+		return { position, renumbered: [] };
 	}
+
+	const renumbered = column
+		.map((task, i) => ({ id: task.id, position: (i < index ? i + 1 : i + 2) * POSITION_STEP }))
+		.filter((entry, i) => column[i][field] !== entry.position);
+	return { position: (index + 1) * POSITION_STEP, renumbered };
 }
 
-export default class ProjectManagerPlugin extends Plugin {
-	settings: ProjectManagerSettings;
-	supabase: SupabaseClient | null = null;
-	projects: Project[] = [];
-	tasks: Task[] = [];
-	realtimeChannel: RealtimeChannel | null = null;
-	statusBarItem: HTMLElement | null = null;
-	kanbanView: KanbanView | null = null;
+// Formats a date as YYYY-MM-DD in local time
+function toLocalDateString(date: Date): string {
+	const pad = (n: number) => ('0' + n).slice(-2);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
 
-	async onload() {
-		await this.loadSettings();
+// Formats a date as YYYY-MM-DDTHH:mm in local time, the value of a datetime-local input
+function toLocalDateTimeString(date: Date): string {
+	const pad = (n: number) => ('0' + n).slice(-2);
+	return `${toLocalDateString(date)}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
 
-		// Register the kanban view
-		this.registerView(
-			VIEW_TYPE_KANBAN,
-			(leaf) => {
-				this.kanbanView = new KanbanView(leaf, this);
-				return this.kanbanView;
-			}
-		);
+// Parses YYYY-MM-DD as local midnight, or any other string Date understands
+function parseLocalDate(value: string): Date | null {
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+	const date = match
+		? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]))
+		: new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+}
 
-		// Add ribbon icon for project manager
-		const ribbonIconEl = this.addRibbonIcon('folder-tree', 'Project Manager', (evt: MouseEvent) => {
-			this.activateKanbanView();
-		});
-		ribbonIconEl.addClass('project-manager-ribbon-class');
+/**
+ * Parses a due date range: "overdue", "today", "<7d" (within the next 7
+ * days), ">2026-01-31" (after a date), "<2026-01-31" (before a date) or
+ * "2026-01-01..2026-01-31". Returns null if the value isn't understood.
+ */
+function parseDueRange(value: string): { after?: Date; before?: Date } | null {
+	const startOfToday = new Date();
+	startOfToday.setHours(0, 0, 0, 0);
+	const endOf = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59, 999);
+	const trimmed = value.trim().toLowerCase();
+
+	// Overdue means due before today, matching the board's due buckets (bounds are inclusive)
+	if (trimmed === 'overdue') return { before: new Date(startOfToday.getTime() - 1) };
+	if (trimmed === 'today') return { after: startOfToday, before: endOf(startOfToday) };
+
+	const relative = trimmed.match(/^([<>])(\d+)([dwm])$/);
+	if (relative) {
+		const amount = parseInt(relative[2]);
+		const target = new Date(startOfToday.getTime());
+		if (relative[3] === 'd') target.setDate(target.getDate() + amount);
+		if (relative[3] === 'w') target.setDate(target.getDate() + amount * 7);
+		if (relative[3] === 'm') target.setMonth(target.getMonth() + amount);
+		// "Within" starts today, so overdue tasks aren't included
+		return relative[1] === '<' ? { after: startOfToday, before: endOf(target) } : { after: endOf(target) };
+	}
 
-		// Add status bar for active tasks
-		this.statusBarItem = this.addStatusBarItem();
-		this.updateStatusBar();
+	const range = trimmed.match(/^(\S+)\.\.(\S+)$/);
+	if (range) {
+		const after = parseLocalDate(range[1]);
+		const before = parseLocalDate(range[2]);
+		return after && before ? { after, before: endOf(before) } : null;
+	}
 
-		// Commands for project management
-		this.addCommand({
-			id: 'create-new-project',
-			name: 'Create New Project',
-			callback: () => {
-				new CreateProjectModal(this.app, this).open();
-			}
-		});
+	const bound = trimmed.match(/^([<>])(.+)$/);
+	if (bound) {
+		const date = parseLocalDate(bound[2]);
+		if (!date) return null;
+		return bound[1] === '<' ? { before: date } : { after: endOf(date) };
+	}
 
-		this.addCommand({
-			id: 'create-new-task',
-			name: 'Create New Task',
-			callback: () => {
-				new CreateTaskModal(this.app, this).open();
-			}
-		});
+	const day = parseLocalDate(trimmed);
+	return day ? { after: day, before: endOf(day) } : null;
+}
 
-		this.addCommand({
-			id: 'open-project-manager',
-			name: 'Open Project Manager',
-			callback: () => {
-				this.activateKanbanView();
-			}
-		});
+function createTaskQuery(): TaskQuery {
+	return { projects: [], statuses: [], priorities: [], has: [], repos: [], text: [], sortDescending: false, view: 'list' };
+}
 
-		this.addCommand({
-			id: 'open-project-kanban',
-			name: 'Open Project Kanban',
-			callback: () => {
-				this.openProjectKanbanSelector();
+/**
+ * Parses the body of a `pm-tasks` code block, one `key: value` per line:
+ * project, status, priority (comma-separated), due (see parseDueRange),
+ * sort (optionally followed by "desc"), limit and view (list or board).
+ */
+function parseTaskQuery(source: string): TaskQuery {
+	const query = createTaskQuery();
+	const list = (value: string) => value.split(',').map(item => item.trim()).filter(item => item);
+
+	source.split('\n').forEach((rawLine, index) => {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) return;
+
+		const separator = line.indexOf(':');
+		if (separator < 0) throw new Error(`Line ${index + 1}: expected "key: value"`);
+		const key = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		switch (key) {
+			case 'project':
+				query.projects.push(...list(value));
+				break;
+			case 'status':
+				query.statuses.push(...list(value).map(status => status.toLowerCase()));
+				break;
+			case 'priority': {
+				const priorities = list(value).map(priority => priority.toLowerCase());
+				const unknown = priorities.find(priority => !PRIORITIES.includes(priority as Task['priority']));
+				if (unknown) throw new Error(`Line ${index + 1}: unknown priority "${unknown}"`);
+				query.priorities.push(...priorities as Task['priority'][]);
+				break;
 			}
-		});
-		// Editor command to link current note to project/task
-		this.addCommand({
-			id: 'link-note-to-project',
-			name: 'Link Note to Project',
-			editorCallback: (editor: Editor, view: MarkdownView) => {
-				const file = view.file;
-				if (file) {
-					new LinkNoteModal(this.app, this, file).open();
+			case 'due': {
+				if (!parseDueRange(value)) throw new Error(`Line ${index + 1}: can't read due range "${value}"`);
+				query.due = value;
+				break;
+			}
+			case 'sort': {
+				const [field, direction] = value.toLowerCase().split(/\s+/);
+				if (!['due', 'priority', 'status', 'title', 'updated', 'created'].includes(field)) {
+					throw new Error(`Line ${index + 1}: can't sort by "${field}"`);
 				}
+				query.sort = field as TaskSortKey;
+				query.sortDescending = direction === 'desc';
+				break;
 			}
-		});
-		// Command to refresh data
-		this.addCommand({
-			id: 'refresh-projects-tasks',
-			name: 'Refresh Projects and Tasks',
-			callback: () => {
-				this.loadProjectsAndTasks();
-				new Notice('Refreshed project data');
+			case 'limit': {
+				const limit = parseInt(value);
+				if (isNaN(limit) || limit < 1) throw new Error(`Line ${index + 1}: limit must be a positive number`);
+				query.limit = limit;
+				break;
 			}
-		});
+			case 'view':
+				if (value !== 'list' && value !== 'board') throw new Error(`Line ${index + 1}: view must be "list" or "board"`);
+				query.view = value;
+				break;
+			default:
+				throw new Error(`Line ${index + 1}: unknown key "${key}"`);
+		}
+	});
 
-		// Command to reconnect to Supabase
-		this.addCommand({
-			id: 'reconnect-supabase',
-			name: 'Reconnect to Supabase',
-			callback: () => {
-				this.initializeSupabase();
+	return query;
+}
+
+const HAS_FIELDS = ['note', 'due', 'repo', 'subtasks', 'blockers', 'parent', 'recurring'];
+
+/**
+ * Parses the board's filter bar, e.g. `priority:high,urgent due:<7d has:note
+ * repo:org/app "login"`. Bare words and quoted phrases search the title and
+ * description. Problems are collected rather than thrown so a half-typed
+ * filter still applies the parts that make sense.
+ */
+function parseFilterQuery(input: string): { query: TaskQuery; errors: string[] } {
+	const query = createTaskQuery();
+	const errors: string[] = [];
+	const tokens = input.match(/[^\s"]+:"[^"]*"|"[^"]*"|\S+/g) || [];
+	const list = (value: string) => value.split(',').map(item => item.trim()).filter(item => item);
+
+	tokens.forEach(token => {
+		const match = token.match(/^(\w+):(.*)$/);
+		if (!match) {
+			const text = token.replace(/^"|"$/g, '').trim().toLowerCase();
+			if (text) query.text.push(text);
+			return;
+		}
+
+		const key = match[1].toLowerCase();
+		const value = match[2].replace(/^"|"$/g, '');
+		if (!value) return;
+
+		switch (key) {
+			case 'project':
+				query.projects.push(...list(value));
+				break;
+			case 'status':
+				query.statuses.push(...list(value).map(status => status.toLowerCase()));
+				break;
+			case 'priority':
+				list(value).map(priority => priority.toLowerCase()).forEach(priority => {
+					if (PRIORITIES.includes(priority as Task['priority'])) {
+						query.priorities.push(priority as Task['priority']);
+					} else {
+						errors.push(`Unknown priority "${priority}"`);
+					}
+				});
+				break;
+			case 'due': {
+				if (parseDueRange(value)) {
+					query.due = value;
+				} else {
+					errors.push(`Can't read due range "${value}"`);
+				}
+				break;
 			}
-		});
+			case 'has':
+				list(value).map(field => field.toLowerCase()).forEach(field => {
+					if (HAS_FIELDS.includes(field)) {
+						query.has.push(field);
+					} else {
+						errors.push(`Unknown field "has:${field}"`);
+					}
+				});
+				break;
+			case 'repo':
+				query.repos.push(...list(value).map(repo => repo.toLowerCase()));
+				break;
+			default:
+				errors.push(`Unknown filter "${key}:"`);
+		}
+	});
 
-		// Settings tab
-		this.addSettingTab(new ProjectManagerSettingTab(this.app, this));
+	return { query, errors };
+}
 
-		// Initialize Supabase connection
-		this.initializeSupabase();
-		
-		// Load initial data
-		this.loadProjectsAndTasks();
+function isTaskQueryEmpty(query: TaskQuery): boolean {
+	return query.projects.length === 0 && query.statuses.length === 0 && query.priorities.length === 0
+		&& !query.due
+		&& query.has.length === 0 && query.repos.length === 0 && query.text.length === 0;
+}
 
+function compareTasks(a: Task, b: Task, key: TaskSortKey): number {
+	switch (key) {
+		case 'due':
+			// Tasks without a due date go last
+			if (!a.due_date || !b.due_date) return a.due_date ? -1 : b.due_date ? 1 : 0;
+			return a.due_date.localeCompare(b.due_date);
+		case 'priority':
+			return PRIORITIES.indexOf(b.priority) - PRIORITIES.indexOf(a.priority);
+		case 'status':
+			return a.status.localeCompare(b.status);
+		case 'title':
+			return a.title.localeCompare(b.title);
+		case 'updated':
+			return b.updated_at.localeCompare(a.updated_at);
+		case 'created':
+			return b.created_at.localeCompare(a.created_at);
 	}
+}
 
-	onunload() {
-		if (this.realtimeChannel) {
-			this.realtimeChannel.unsubscribe();
+function getDueBucket(task: Task, today: Date): string {
+	if (!task.due_date) return 'none';
+	const due = new Date(task.due_date).getTime();
+	const dayStart = (offset: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset).getTime();
+	if (due < dayStart(0)) return 'overdue';
+	if (due < dayStart(1)) return 'today';
+	if (due < dayStart(8)) return 'week';
+	return 'later';
+}
+
+function buildSwimlanes(grouping: SwimlaneGrouping, tasks: Task[], projects: Project[], now = new Date()): Swimlane[] {
+	switch (grouping) {
+		case 'project': {
+			// Archived projects only get a lane while they still have tasks on the board
+			const lanes: Swimlane[] = projects
+				.filter(project => project.status !== 'archived' || tasks.some(task => task.project_id === project.id))
+				.map(project => ({
+					id: project.id,
+					name: project.name,
+					tasks: tasks.filter(task => task.project_id === project.id),
+					update: { project_id: project.id }
+				}));
+			lanes.push({
+				id: 'none',
+				name: 'No project',
+				tasks: tasks.filter(task => !task.project_id || !projects.some(project => project.id === task.project_id)),
+				update: { project_id: null }
+			});
+			return lanes;
+		}
+		case 'priority':
+			return PRIORITIES.slice().reverse().map(priority => ({
+				id: priority,
+				name: priority.charAt(0).toUpperCase() + priority.slice(1),
+				tasks: tasks.filter(task => task.priority === priority),
+				update: { priority }
+			}));
+		case 'due': {
+			const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+			const day = (offset: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset).toISOString();
+			// Dropping into a bucket moves the due date to the first day of that bucket
+			const buckets: { id: string; name: string; update: Partial<Task> | null }[] = [
+				{ id: 'overdue', name: 'Overdue', update: null },
+				{ id: 'today', name: 'Due today', update: { due_date: day(0) } },
+				{ id: 'week', name: 'Next 7 days', update: { due_date: day(1) } },
+				{ id: 'later', name: 'Later', update: { due_date: day(8) } },
+				{ id: 'none', name: 'No due date', update: { due_date: null } }
+			];
+			return buckets.map(bucket => ({
+				...bucket,
+				tasks: tasks.filter(task => getDueBucket(task, today) === bucket.id)
+			}));
 		}
+		default:
+			return [{ id: '', name: '', tasks, update: {} }];
 	}
+}
 
+// All notes linked to a record, main note first. Records from before
+// linked_notes existed only have markdown_file.
+function getLinkedNotes(record: NoteLinkFields): NoteLink[] {
+	const links = record.linked_notes || [];
+	if (record.markdown_file && !links.some(link => link.path === record.markdown_file)) {
+		return [{ path: record.markdown_file }, ...links];
+	}
+	return links;
+}
 
-	initializeSupabase() {
-		if (this.settings.supabaseUrl && this.settings.supabaseKey) {
-			this.supabase = createClient(this.settings.supabaseUrl, this.settings.supabaseKey);
-			
-			if (this.settings.enableRealtime) {
-				this.setupRealtimeSubscriptions();
-			}
-			
-			new Notice('Connected to Supabase');
-		} else {
-			new Notice('Please configure Supabase settings');
-		}
+// The first note linked becomes the main note; returns null if the note is already linked
+function addNoteLink(record: NoteLinkFields, path: string, role?: string): NoteLinkFields | null {
+	const links = getLinkedNotes(record);
+	if (links.some(link => link.path === path)) return null;
+	return {
+		markdown_file: record.markdown_file || path,
+		linked_notes: [...links, role ? { path, role } : { path }]
+	};
+}
+
+// Removing the main note promotes the next linked note
+function removeNoteLink(record: NoteLinkFields, path: string): NoteLinkFields {
+	const links = getLinkedNotes(record).filter(link => link.path !== path);
+	return {
+		markdown_file: record.markdown_file === path ? (links.length > 0 ? links[0].path : null) : record.markdown_file,
+		linked_notes: links
+	};
+}
+
+// A frontmatter value as text, with missing values as ''
+function getFrontmatterValue(frontmatter: Record<string, unknown> | undefined, key: string): string {
+	const value = frontmatter?.[key];
+	return value === undefined || value === null ? '' : String(value);
+}
+
+// Replaces {{key}} placeholders; unknown keys are left as they are
+function renderTemplate(template: string, values: Record<string, string>): string {
+	return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (match, key: string) => key in values ? values[key] : match);
+}
+
+function sanitizeFileName(name: string): string {
+	return name.replace(/[<>:"/\\|?*]/g, '').trim();
+}
+
+function formatTemplateDate(value?: string | null): string {
+	return value ? toLocalDateString(new Date(value)) : '';
+}
+
+function addRecurrenceInterval(date: Date, rule: RecurrenceRule): Date {
+	const next = new Date(date.getTime());
+	const interval = Math.max(1, rule.interval);
+	if (rule.unit === 'day') {
+		next.setDate(next.getDate() + interval);
+	} else if (rule.unit === 'week') {
+		next.setDate(next.getDate() + interval * 7);
+	} else {
+		// Clamp to the end of shorter months, e.g. Jan 31 -> Feb 28
+		const day = next.getDate();
+		next.setDate(1);
+		next.setMonth(next.getMonth() + interval);
+		const lastDay = new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate();
+		next.setDate(Math.min(day, lastDay));
 	}
+	return next;
+}
 
-	setupRealtimeSubscriptions() {
-		if (!this.supabase) return;
-		
-		// Cleanup existing subscription
-		if (this.realtimeChannel) {
-			this.realtimeChannel.unsubscribe();
+/**
+ * Due date of the occurrence after `task`, completed at `completedAt`. Due-date
+ * based rules keep their schedule but skip occurrences that are already past.
+ */
+function getNextDueDate(task: Task, rule: RecurrenceRule, completedAt: Date): Date {
+	if (rule.basis === 'completion' || !task.due_date) {
+		const base = new Date(completedAt.getTime());
+		if (task.due_date) {
+			// Keep the time of day of the original due date
+			const due = new Date(task.due_date);
+			base.setHours(due.getHours(), due.getMinutes(), 0, 0);
 		}
-		
-		this.realtimeChannel = this.supabase
-			.channel('project-manager-changes')
-			.on('postgres_changes', 
-				{ event: '*', schema: 'public', table: 'projects' },
-				(payload) => {
-					console.log('Projects changed:', payload);
-					this.loadProjects();
-				}
-			)
-			.on('postgres_changes',
-				{ event: '*', schema: 'public', table: 'tasks' },
-				(payload) => {
-					console.log('Tasks changed:', payload);
-					this.loadTasks();
-				}
-			)
-			.subscribe((status) => {
-				console.log('Realtime subscription status:', status);
-			});
+		return addRecurrenceInterval(base, rule);
 	}
 
-	async loadProjectsAndTasks() {
-		await Promise.all([this.loadProjects(), this.loadTasks()]);
+	let next = addRecurrenceInterval(new Date(task.due_date), rule);
+	while (next.getTime() <= completedAt.getTime()) {
+		next = addRecurrenceInterval(next, rule);
+	}
+	return next;
+}
+
+function describeRecurrence(rule: RecurrenceRule): string {
+	const every = rule.interval === 1 ? `Every ${rule.unit}` : `Every ${rule.interval} ${rule.unit}s`;
+	return `${every} after ${rule.basis === 'completion' ? 'completion' : 'due date'}`;
+}
+
+/**
+ * Follows blocked_by links from `fromId` and returns the chain of task ids
+ * leading to `toId`, or null if `toId` can't be reached.
+ */
+function findDependencyPath(tasks: Task[], fromId: string, toId: string, visited: string[] = []): string[] | null {
+	if (fromId === toId) return [toId];
+	if (visited.includes(fromId)) return null;
+	visited.push(fromId);
+
+	const task = tasks.find(t => t.id === fromId);
+	for (const blockerId of task?.blocked_by || []) {
+		const path = findDependencyPath(tasks, blockerId, toId, visited);
+		if (path) return [fromId, ...path];
+	}
+	return null;
+}
+
+type ExportFormat = 'json' | 'csv';
+
+// Contents of a JSON export; CSV exports hold the same records, one per row
+interface ExportData {
+	version: number;
+	exported_at: string;
+	projects: Project[];
+	tasks: Task[];
+}
+
+const EXPORT_VERSION = 1;
+
+const PROJECT_STATUSES: Project['status'][] = ['active', 'completed', 'archived'];
+
+// Fields written to and accepted from export files; anything else in an import is ignored
+const PROJECT_FIELDS = ['id', 'name', 'description', 'status', 'start_date', 'target_date', 'github_repo', 'markdown_file', 'linked_notes', 'created_at', 'updated_at'];
+const TASK_FIELDS = ['id', 'title', 'description', 'status', 'priority', 'project_id', 'parent_id', 'position', 'subtask_position', 'start_date', 'due_date', 'blocked_by', 'recurrence', 'github_repo', 'github_issue', 'github_state', 'github_labels', 'markdown_file', 'linked_notes', 'source_file', 'source_line', 'created_at', 'updated_at'];
+
+// CSV exports put projects and tasks in one file; `type` tells them apart
+const CSV_COLUMNS = ['type', ...PROJECT_FIELDS, ...TASK_FIELDS.filter(field => !PROJECT_FIELDS.includes(field))];
+const CSV_NUMBER_COLUMNS = ['position', 'subtask_position', 'github_issue', 'source_line'];
+// Array and object fields are stored as JSON inside their cell
+const CSV_JSON_COLUMNS = ['linked_notes', 'blocked_by', 'recurrence', 'github_labels'];
+
+function escapeCsvValue(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function formatCsv(data: ExportData): string {
+	const rows = [
+		...data.projects.map(project => ({ type: 'project', ...project })),
+		...data.tasks.map(task => ({ type: 'task', ...task }))
+	].map(record => CSV_COLUMNS.map(column => {
+		const value = (record as Record<string, unknown>)[column];
+		if (value === undefined || value === null) return '';
+		return escapeCsvValue(typeof value === 'object' ? JSON.stringify(value) : String(value));
+	}).join(','));
+	return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+// Splits CSV text into rows of cells, handling quoted cells with commas, quotes and line breaks
+function parseCsvRows(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let quoted = false;
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ',') {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+	if (cell || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows.filter(r => r.some(value => value.trim()));
+}
+
+// Empty cells are left out of the record, so they don't overwrite existing values on import
+function parseCsv(text: string): ExportData {
+	const [header, ...rows] = parseCsvRows(text);
+	if (!header || !header.includes('type')) {
+		throw new Error('CSV file has no "type" column');
+	}
+
+	const data: ExportData = { version: EXPORT_VERSION, exported_at: '', projects: [], tasks: [] };
+	rows.forEach((row, index) => {
+		const record: Record<string, unknown> = {};
+		header.forEach((column, i) => {
+			const value = row[i] ?? '';
+			if (!value || column === 'type') return;
+			if (CSV_NUMBER_COLUMNS.includes(column)) {
+				const number = Number(value);
+				if (Number.isNaN(number)) {
+					throw new Error(`Row ${index + 2}: "${column}" must be a number, got "${value}"`);
+				}
+				record[column] = number;
+			} else if (CSV_JSON_COLUMNS.includes(column)) {
+				try {
+					record[column] = JSON.parse(value);
+				} catch (error) {
+					throw new Error(`Row ${index + 2}: "${column}" is not valid JSON`);
+				}
+			} else {
+				record[column] = value;
+			}
+		});
+
+		const type = row[header.indexOf('type')];
+		if (type === 'project') {
+			data.projects.push(record as unknown as Project);
+		} else if (type === 'task') {
+			data.tasks.push(record as unknown as Task);
+		} else {
+			throw new Error(`Row ${index + 2}: unknown type "${type}"`);
+		}
+	});
+	return data;
+}
+
+function parseExportFile(text: string, format: ExportFormat): ExportData {
+	if (format === 'csv') return parseCsv(text);
+
+	let parsed: Partial<ExportData>;
+	try {
+		parsed = JSON.parse(text);
+	} catch (error) {
+		throw new Error(`Invalid JSON: ${error.message}`);
+	}
+	if (!parsed || typeof parsed !== 'object' || (!Array.isArray(parsed.projects) && !Array.isArray(parsed.tasks))) {
+		throw new Error('JSON file has no "projects" or "tasks" list');
+	}
+	return {
+		version: parsed.version || EXPORT_VERSION,
+		exported_at: parsed.exported_at || '',
+		projects: Array.isArray(parsed.projects) ? parsed.projects : [],
+		tasks: Array.isArray(parsed.tasks) ? parsed.tasks : []
+	};
+}
+
+function pickFields<T>(record: T, fields: string[]): Partial<T> {
+	const picked: Record<string, unknown> = {};
+	fields.forEach(field => {
+		const value = (record as Record<string, unknown>)[field];
+		if (value !== undefined) picked[field] = value;
+	});
+	return picked as Partial<T>;
+}
+
+// Fields of `incoming` whose values differ from `existing`, ignoring ids and timestamps
+function diffRecord<T>(existing: T, incoming: Partial<T>): Partial<T> {
+	const changes: Record<string, unknown> = {};
+	Object.entries(incoming).forEach(([field, value]) => {
+		if (['id', 'created_at', 'updated_at'].includes(field)) return;
+		const current = (existing as Record<string, unknown>)[field];
+		if (JSON.stringify(current ?? null) !== JSON.stringify(value ?? null)) {
+			changes[field] = value;
+		}
+	});
+	return changes as Partial<T>;
+}
+
+// What an import will do with one record. `record` is the record as it will be
+// created, with ids remapped; `changes` are the fields an update will write.
+interface ImportAction<T> {
+	action: 'create' | 'update' | 'unchanged';
+	record: T;
+	changes: Partial<T>;
+	// How an existing record was recognised as the same one
+	matchedBy?: 'id' | 'name';
+}
+
+// Records to import; anything may be missing or invalid until planImport has checked it
+interface ImportData {
+	projects: Partial<Project>[];
+	tasks: Partial<Task>[];
+}
+
+interface ImportPlan {
+	projects: ImportAction<Project>[];
+	tasks: ImportAction<Task>[];
+	// Records that failed validation; they are skipped
+	errors: string[];
+	warnings: string[];
+}
+
+/**
+ * Works out what importing `data` would change, without changing anything.
+ * Records match existing ones by id, then projects by name and tasks by title
+ * within the same project; matches become updates of the differing fields.
+ * Everything else is created with a new id, and project, parent and blocker
+ * references are remapped to the ids records end up with.
+ */
+function planImport(data: ImportData, projects: Project[], tasks: Task[], getWorkflow: (projectId?: string | null) => Workflow): ImportPlan {
+	const plan: ImportPlan = { projects: [], tasks: [], errors: [], warnings: [] };
+	const now = new Date().toISOString();
+	const sameText = (a?: string, b?: string) => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+
+	// Imported id -> id of the existing or newly created record
+	const projectIds = new Map<string, string>();
+	data.projects.forEach((raw, index) => {
+		const incoming = pickFields(raw, PROJECT_FIELDS);
+		const label = typeof incoming.name === 'string' && incoming.name.trim() ? `Project "${incoming.name}"` : `Project ${index + 1}`;
+		if (typeof incoming.name !== 'string' || !incoming.name.trim()) {
+			plan.errors.push(`${label}: missing name`);
+			return;
+		}
+		if (incoming.status !== undefined && !PROJECT_STATUSES.includes(incoming.status)) {
+			plan.errors.push(`${label}: invalid status "${incoming.status}" (expected ${PROJECT_STATUSES.join(', ')})`);
+			return;
+		}
+
+		const byId = incoming.id ? projects.find(p => p.id === incoming.id) : undefined;
+		const existing = byId || projects.find(p => sameText(p.name, incoming.name));
+		if (existing) {
+			const changes = diffRecord(existing, incoming);
+			if (incoming.id) projectIds.set(incoming.id, existing.id);
+			plan.projects.push({ action: Object.keys(changes).length > 0 ? 'update' : 'unchanged', record: existing, changes, matchedBy: byId ? 'id' : 'name' });
+			return;
+		}
+
+		const record: Project = { status: 'active', created_at: now, ...incoming, name: incoming.name, id: crypto.randomUUID(), updated_at: now };
+		if (incoming.id) projectIds.set(incoming.id, record.id);
+		plan.projects.push({ action: 'create', record, changes: {} });
+	});
+
+	const resolveProject = (id: string | null | undefined, label: string): string | null => {
+		if (!id) return null;
+		const mapped = projectIds.get(id);
+		if (mapped) return mapped;
+		if (projects.some(p => p.id === id)) return id;
+		plan.warnings.push(`${label}: project ${id} not found, imported without a project`);
+		return null;
+	};
+
+	// First pass: validate tasks and work out their ids, so parent and blocker
+	// references can point at tasks that come later in the file
+	const taskIds = new Map<string, string>();
+	const pending: { incoming: Partial<Task>; title: string; existing?: Task; matchedBy?: 'id' | 'name'; id: string; label: string }[] = [];
+	data.tasks.forEach((raw, index) => {
+		const incoming = pickFields(raw, TASK_FIELDS);
+		const label = typeof incoming.title === 'string' && incoming.title.trim() ? `Task "${incoming.title}"` : `Task ${index + 1}`;
+		if (typeof incoming.title !== 'string' || !incoming.title.trim()) {
+			plan.errors.push(`${label}: missing title`);
+			return;
+		}
+		if (incoming.priority !== undefined && !PRIORITIES.includes(incoming.priority)) {
+			plan.errors.push(`${label}: invalid priority "${incoming.priority}" (expected ${PRIORITIES.join(', ')})`);
+			return;
+		}
+
+		if (incoming.project_id !== undefined) {
+			incoming.project_id = resolveProject(incoming.project_id, label);
+		}
+		const byId = incoming.id ? tasks.find(t => t.id === incoming.id) : undefined;
+		const projectId = incoming.project_id !== undefined ? incoming.project_id : byId?.project_id;
+		if (incoming.status !== undefined) {
+			const columns = getWorkflow(projectId).columns;
+			if (!columns.some(c => c.id === incoming.status)) {
+				plan.errors.push(`${label}: invalid status "${incoming.status}" (expected ${columns.map(c => c.id).join(', ')})`);
+				return;
+			}
+		}
+
+		const existing = byId || tasks.find(t => (t.project_id || null) === (projectId || null) && sameText(t.title, incoming.title));
+		const id = existing ? existing.id : crypto.randomUUID();
+		if (incoming.id) taskIds.set(incoming.id, id);
+		pending.push({ incoming, title: incoming.title, existing, matchedBy: existing ? (byId ? 'id' : 'name') : undefined, id, label });
+	});
+
+	const resolveTask = (id: string, label: string): string | null => {
+		const mapped = taskIds.get(id);
+		if (mapped) return mapped;
+		if (tasks.some(t => t.id === id)) return id;
+		plan.warnings.push(`${label}: linked task ${id} not found, link dropped`);
+		return null;
+	};
+
+	pending.forEach(({ incoming, title, existing, matchedBy, id, label }) => {
+		if (incoming.parent_id) {
+			incoming.parent_id = resolveTask(incoming.parent_id, label);
+		}
+		if (incoming.blocked_by) {
+			incoming.blocked_by = incoming.blocked_by.map(blockerId => resolveTask(blockerId, label)).filter((blockerId): blockerId is string => !!blockerId);
+		}
+
+		if (existing) {
+			const changes = diffRecord(existing, incoming);
+			plan.tasks.push({ action: Object.keys(changes).length > 0 ? 'update' : 'unchanged', record: existing, changes, matchedBy });
+			return;
+		}
+
+		const projectId = incoming.project_id || null;
+		const record: Task = {
+			status: getWorkflow(projectId).columns[0]?.id || 'todo',
+			priority: 'medium',
+			created_at: now,
+			...incoming,
+			title,
+			id,
+			updated_at: now
+		};
+		plan.tasks.push({ action: 'create', record, changes: {} });
+	});
+
+	return plan;
+}
+
+// Frontmatter key that marks a note as a markdown Kanban board
+const KANBAN_BOARD_KEY = 'kanban-plugin';
+
+interface KanbanBoardCard {
+	title: string;
+	checked: boolean;
+	due_date?: string;
+	priority?: Task['priority'];
+	// Task id from the %%pm:<id>%% marker written on export
+	id?: string;
+}
+
+// A lane of a markdown Kanban board: a heading and the cards under it
+interface KanbanBoardLane {
+	heading: string;
+	// Lanes marked **Complete** (and archived cards) count as done
+	complete: boolean;
+	cards: KanbanBoardCard[];
+}
+
+function isKanbanBoardContent(content: string): boolean {
+	const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+	return !!frontmatter && new RegExp(`^${KANBAN_BOARD_KEY}:`, 'm').test(frontmatter[1]);
+}
+
+// Cards carry their due date as @{YYYY-MM-DD} (plus @@{HH:mm} for a time) and their priority as a tag
+function formatKanbanCard(task: Task, done: boolean): string {
+	let text = task.title;
+	if (task.due_date) {
+		const due = new Date(task.due_date);
+		text += ` @{${toLocalDateString(due)}}`;
+		if (due.getHours() !== 0 || due.getMinutes() !== 0) {
+			const pad = (n: number) => ('0' + n).slice(-2);
+			text += ` @@{${pad(due.getHours())}:${pad(due.getMinutes())}}`;
+		}
+	}
+	return `- [${done ? 'x' : ' '}] ${text} #${task.priority} %%pm:${task.id}%%`;
+}
+
+function formatKanbanBoard(lanes: { column: WorkflowColumn; tasks: Task[] }[]): string {
+	const body = lanes.map(({ column, tasks }) => [
+		`## ${column.name}`,
+		'',
+		...(column.isDone ? ['**Complete**'] : []),
+		...tasks.map(task => formatKanbanCard(task, column.isDone))
+	].join('\n')).join('\n\n\n');
+	const settings = JSON.stringify({ [KANBAN_BOARD_KEY]: 'basic' });
+	return `---\n\n${KANBAN_BOARD_KEY}: basic\n\n---\n\n${body}\n\n\n%% kanban:settings\n\`\`\`\n${settings}\n\`\`\`\n%%\n`;
+}
+
+// Reads one card's text; date, time and priority tags are taken out of the title
+function parseKanbanCard(text: string, checked: boolean): KanbanBoardCard {
+	const card: KanbanBoardCard = { title: '', checked };
+	const marker = text.match(CHECKBOX_MARKER_REGEX);
+	if (marker) card.id = marker[1];
+
+	let title = text.replace(CHECKBOX_MARKER_REGEX, '');
+	const date = title.match(/@\{(\d{4}-\d{2}-\d{2})\}/) || title.match(/📅\s*(\d{4}-\d{2}-\d{2})/);
+	const time = title.match(/@@\{(\d{1,2}):(\d{2})\}/);
+	const due = date ? parseLocalDate(date[1]) : null;
+	if (due) {
+		if (time) due.setHours(parseInt(time[1]), parseInt(time[2]));
+		card.due_date = due.toISOString();
+	}
+	const priority = title.match(/(?:^|\s)#(low|medium|high|urgent)(?=\s|$)/i);
+	if (priority) card.priority = priority[1].toLowerCase() as Task['priority'];
+
+	title = title
+		.replace(/@@\{\d{1,2}:\d{2}\}/g, '')
+		.replace(/@\{\d{4}-\d{2}-\d{2}\}/g, '')
+		.replace(/📅\s*\d{4}-\d{2}-\d{2}/g, '')
+		.replace(/(^|\s)#(low|medium|high|urgent)(?=\s|$)/gi, '$1');
+	card.title = title.replace(/\s+/g, ' ').trim();
+	return card;
+}
+
+/**
+ * Parses a markdown Kanban board: `##` headings are lanes and top-level
+ * checkbox items under them are cards. Lanes after the `***` separator are
+ * the board's archive and count as complete.
+ */
+function parseKanbanBoard(content: string): KanbanBoardLane[] {
+	const lanes: KanbanBoardLane[] = [];
+	let archived = false;
+	for (const line of content.split(/\r?\n/)) {
+		if (line.startsWith('%% kanban:settings')) break;
+		if (line.trim() === '***') {
+			archived = true;
+			continue;
+		}
+
+		const heading = line.match(/^##\s+(.+)$/);
+		if (heading) {
+			lanes.push({ heading: heading[1].trim(), complete: archived, cards: [] });
+			continue;
+		}
+
+		const lane = lanes[lanes.length - 1];
+		if (!lane) continue;
+		if (line.trim() === '**Complete**') {
+			lane.complete = true;
+			continue;
+		}
+		const match = line.match(CHECKBOX_REGEX);
+		if (match && !/^\s/.test(line)) {
+			const card = parseKanbanCard(match[4], match[2] !== ' ');
+			if (card.title) lane.cards.push(card);
+		}
+	}
+	return lanes;
+}
+
+function applyRealtimePayload<T extends { id: string }>(records: T[], payload: RealtimePostgresChangesPayload<T>): T[] {
+	switch (payload.eventType) {
+		case 'INSERT':
+		case 'UPDATE': {
+			const record = payload.new as T;
+			if (records.some(r => r.id === record.id)) {
+				return records.map(r => r.id === record.id ? record : r);
+			}
+			return [record, ...records];
+		}
+		case 'DELETE':
+			return records.filter(r => r.id !== payload.old.id);
+	}
+}
+
+// Storage backends
+
+/**
+ * Thrown by a storage backend when it refused a write (constraint, permission,
+ * missing row). Any other error is treated as the backend being unreachable.
+ */
+class StorageRejectedError extends Error {
+	constructor(message: string, public code?: string) {
+		super(message);
+		this.name = 'StorageRejectedError';
+	}
+}
+
+function toStorageError(error: { message: string; code?: string }): Error {
+	// PostgREST reports network failures with an empty code
+	if (error.code) {
+		const column = getMissingColumn(error as { message: string; code: string });
+		if (column) {
+			return new StorageRejectedError(`The database has no "${column}" column; add it as described under Backend Setup in the README`, error.code);
+		}
+		return new StorageRejectedError(error.message, error.code);
+	}
+	return new Error(error.message);
+}
+
+// Name of the column a write failed on because the schema doesn't have it yet
+function getMissingColumn(error: { message: string; code: string }): string | null {
+	// PGRST204: Could not find the 'position' column of 'tasks' in the schema cache
+	// 42703: column "position" of relation "tasks" does not exist / column tasks.position does not exist
+	if (error.code !== 'PGRST204' && error.code !== '42703') return null;
+	const match = error.message.match(/'(?<column>\w+)' column of '(?<table>\w+)'/)
+		|| error.message.match(/column "(?<column>\w+)" of relation "(?<table>\w+)"/)
+		|| error.message.match(/column (?<table>\w+)\.(?<column>\w+) does not exist/);
+	return match?.groups ? `${match.groups.table}.${match.groups.column}` : null;
+}
+
+interface ProjectManagerStorage {
+	loadProjects(): Promise<Project[]>;
+	createProject(project: Project): Promise<Project>;
+	updateProject(id: string, updates: Partial<Project>): Promise<void>;
+	deleteProject(id: string): Promise<void>;
+	loadTasks(): Promise<Task[]>;
+	createTask(task: Task): Promise<Task>;
+	updateTask(id: string, updates: Partial<Task>): Promise<void>;
+	deleteTask(id: string): Promise<void>;
+}
+
+class SupabaseStorage implements ProjectManagerStorage {
+	constructor(private client: SupabaseClient) {}
+
+	async loadProjects(): Promise<Project[]> {
+		const { data, error } = await this.client
+			.from('projects')
+			.select('*')
+			.order('updated_at', { ascending: false });
+
+		if (error) throw toStorageError(error);
+		return data || [];
+	}
+
+	async createProject(project: Project): Promise<Project> {
+		const { data, error } = await this.client
+			.from('projects')
+			.insert([project])
+			.select()
+			.single();
+
+		if (error) throw toStorageError(error);
+		return data;
+	}
+
+	async updateProject(id: string, updates: Partial<Project>): Promise<void> {
+		const { error } = await this.client
+			.from('projects')
+			.update(updates)
+			.eq('id', id);
+
+		if (error) throw toStorageError(error);
+	}
+
+	async deleteProject(id: string): Promise<void> {
+		const { error } = await this.client
+			.from('projects')
+			.delete()
+			.eq('id', id);
+
+		if (error) throw toStorageError(error);
+	}
+
+	async loadTasks(): Promise<Task[]> {
+		const { data, error } = await this.client
+			.from('tasks')
+			.select('*')
+			.order('updated_at', { ascending: false });
+
+		if (error) throw toStorageError(error);
+		return data || [];
+	}
+
+	async createTask(task: Task): Promise<Task> {
+		const { data, error } = await this.client
+			.from('tasks')
+			.insert([task])
+			.select()
+			.single();
+
+		if (error) throw toStorageError(error);
+		return data;
+	}
+
+	async updateTask(id: string, updates: Partial<Task>): Promise<void> {
+		const { error } = await this.client
+			.from('tasks')
+			.update(updates)
+			.eq('id', id);
+
+		if (error) throw toStorageError(error);
+	}
+
+	async deleteTask(id: string): Promise<void> {
+		const { error } = await this.client
+			.from('tasks')
+			.delete()
+			.eq('id', id);
+
+		if (error) throw toStorageError(error);
+	}
+}
+
+interface VaultStoreData {
+	projects: Project[];
+	tasks: Task[];
+}
+
+/**
+ * Keeps projects and tasks in a single JSON file inside the vault, for
+ * setups without a Supabase instance. The file syncs like any other vault file.
+ */
+class VaultStorage implements ProjectManagerStorage {
+	// Writes run one after another so concurrent read-modify-writes can't overwrite each other
+	private queue: Promise<unknown> = Promise.resolve();
+	// Content of the last write, to tell our own changes to the file apart from outside ones
+	private lastWritten: string | null = null;
+
+	constructor(private app: App, private filePath: string) {}
+
+	private async read(): Promise<VaultStoreData> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.filePath))) {
+			return { projects: [], tasks: [] };
+		}
+
+		const data = JSON.parse(await adapter.read(this.filePath));
+		return {
+			projects: data.projects || [],
+			tasks: data.tasks || []
+		};
+	}
+
+	private async write(data: VaultStoreData): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		const dirPath = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+		if (dirPath && !(await adapter.exists(dirPath))) {
+			await adapter.mkdir(dirPath);
+		}
+		const content = JSON.stringify(data, null, '\t');
+		this.lastWritten = content;
+		await adapter.write(this.filePath, content);
+	}
+
+	// Reads the store, applies `change` and writes it back, after any writes already queued
+	private update(change: (data: VaultStoreData) => void): Promise<void> {
+		const next = this.queue.then(async () => {
+			const data = await this.read();
+			change(data);
+			await this.write(data);
+		});
+		// A failed write must not block the ones after it
+		this.queue = next.catch(() => undefined);
+		return next;
+	}
+
+	// True if the file still holds what this storage last wrote
+	async isOwnWrite(): Promise<boolean> {
+		if (this.lastWritten === null) return false;
+		const adapter = this.app.vault.adapter;
+		return (await adapter.exists(this.filePath)) && (await adapter.read(this.filePath)) === this.lastWritten;
+	}
+
+	private sortByUpdated<T extends { updated_at: string }>(items: T[]): T[] {
+		return [...items].sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+	}
+
+	async loadProjects(): Promise<Project[]> {
+		const data = await this.read();
+		return this.sortByUpdated(data.projects);
+	}
+
+	async createProject(project: Project): Promise<Project> {
+		await this.update(data => {
+			data.projects.push(project);
+		});
+		return project;
+	}
+
+	async updateProject(id: string, updates: Partial<Project>): Promise<void> {
+		await this.update(data => {
+			const project = data.projects.find(p => p.id === id);
+			if (!project) throw new StorageRejectedError(`Project ${id} not found`);
+			Object.assign(project, updates, { updated_at: new Date().toISOString() });
+		});
+	}
+
+	async deleteProject(id: string): Promise<void> {
+		await this.update(data => {
+			data.projects = data.projects.filter(p => p.id !== id);
+		});
+	}
+
+	async loadTasks(): Promise<Task[]> {
+		const data = await this.read();
+		return this.sortByUpdated(data.tasks);
+	}
+
+	async createTask(task: Task): Promise<Task> {
+		await this.update(data => {
+			data.tasks.push(task);
+		});
+		return task;
+	}
+
+	async updateTask(id: string, updates: Partial<Task>): Promise<void> {
+		await this.update(data => {
+			const task = data.tasks.find(t => t.id === id);
+			if (!task) throw new StorageRejectedError(`Task ${id} not found`);
+			Object.assign(task, updates, { updated_at: new Date().toISOString() });
+		});
+	}
+
+	async deleteTask(id: string): Promise<void> {
+		await this.update(data => {
+			data.tasks = data.tasks.filter(t => t.id !== id);
+		});
+	}
+}
+
+interface HttpRequest {
+	url: string;
+	method?: string;
+	headers?: Record<string, string>;
+	body?: string;
+}
+
+interface HttpResponse {
+	status: number;
+	headers: Record<string, string>;
+	json: unknown;
+}
+
+/**
+ * The HTTP transport used for GitHub sync. Swap it out (via
+ * plugin.httpClient) to run the sync against a fake API.
+ */
+interface HttpClient {
+	request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+// Uses Obsidian's requestUrl, which isn't subject to CORS
+class ObsidianHttpClient implements HttpClient {
+	async request(request: HttpRequest): Promise<HttpResponse> {
+		const response = await requestUrl({ ...request, throw: false });
+		let json: unknown = null;
+		try {
+			json = response.json;
+		} catch (error) {
+			// Not every response has a JSON body
+		}
+		return { status: response.status, headers: response.headers, json };
+	}
+}
+
+// The parts of a GitHub issue (or pull request, which the issues API also returns) the sync uses
+interface GitHubIssue {
+	number: number;
+	title: string;
+	body?: string | null;
+	state: 'open' | 'closed';
+	labels: ({ name?: string } | string)[];
+	pull_request?: { merged_at?: string | null };
+}
+
+interface GitHubSyncResult {
+	imported: number;
+	updated: number;
+	completed: number;
+	errors: string[];
+}
+
+const GITHUB_PAGE_SIZE = 100;
+
+// Web address of the GitHub instance behind an API URL, e.g. https://github.com for https://api.github.com
+function getGitHubWebUrl(apiUrl: string): string {
+	const url = apiUrl.replace(/\/+$/, '');
+	if (/^https?:\/\/api\.github\.com$/.test(url)) return 'https://github.com';
+	// GitHub Enterprise serves its API under /api/v3
+	return url.replace(/\/api\/v3$/, '');
+}
+
+/**
+ * Imports open issues from project repositories as tasks and mirrors issue
+ * title, state and labels onto tasks that track an issue or pull request.
+ * Closing an issue or merging a pull request moves its task to done; the
+ * task's status is only touched when the GitHub state changes, so manual
+ * moves on the board are kept.
+ */
+class GitHubSyncService {
+	constructor(private plugin: ProjectManagerPlugin, private http: HttpClient, private apiUrl: string, private token: string) {}
+
+	private async get<T>(path: string): Promise<T> {
+		const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+		if (this.token) headers.Authorization = `Bearer ${this.token}`;
+		const response = await this.http.request({ url: `${this.apiUrl.replace(/\/+$/, '')}${path}`, method: 'GET', headers });
+		if (response.status >= 400) {
+			const message = (response.json as { message?: string } | null)?.message || 'request failed';
+			throw new Error(`GitHub ${response.status} for ${path}: ${message}`);
+		}
+		return response.json as T;
+	}
+
+	async fetchOpenIssues(repo: string): Promise<GitHubIssue[]> {
+		const issues: GitHubIssue[] = [];
+		for (let page = 1; ; page++) {
+			const batch = await this.get<GitHubIssue[]>(`/repos/${repo}/issues?state=open&per_page=${GITHUB_PAGE_SIZE}&page=${page}`);
+			issues.push(...batch);
+			if (batch.length < GITHUB_PAGE_SIZE) return issues;
+		}
+	}
+
+	fetchIssue(repo: string, number: number): Promise<GitHubIssue> {
+		return this.get<GitHubIssue>(`/repos/${repo}/issues/${number}`);
+	}
+
+	static getState(issue: GitHubIssue): GitHubIssueState {
+		if (issue.pull_request && issue.pull_request.merged_at) return 'merged';
+		return issue.state;
+	}
+
+	static getLabels(issue: GitHubIssue): string[] {
+		return issue.labels.map(label => typeof label === 'string' ? label : label.name || '').filter(label => label);
+	}
+
+	async syncAll(): Promise<GitHubSyncResult> {
+		const result: GitHubSyncResult = { imported: 0, updated: 0, completed: 0, errors: [] };
+		const projects = this.plugin.projects.filter(p => p.github_repo && p.status !== 'archived');
+		// Open issues and pull requests by repo, for the repos that were listed
+		const openIssues = new Map<string, Map<number, GitHubIssue>>();
+
+		for (const project of projects) {
+			const repo = project.github_repo;
+			if (!repo) continue;
+			try {
+				let listed = openIssues.get(repo);
+				if (!listed) {
+					const issues = await this.fetchOpenIssues(repo);
+					listed = new Map(issues.map(issue => [issue.number, issue]));
+					openIssues.set(repo, listed);
+				}
+				await this.importProjectIssues(project, repo, Array.from(listed.values()), result);
+			} catch (error) {
+				result.errors.push(`${repo}: ${error.message}`);
+			}
+		}
+
+		// Tasks are synced from the listings where possible, so only issues that
+		// were closed since the last sync (or whose repo wasn't listed) cost a request each
+		for (const task of this.plugin.tasks) {
+			const repo = task.github_repo;
+			const number = task.github_issue;
+			if (!repo || !number) continue;
+			const listed = openIssues.get(repo);
+			let issue = listed?.get(number);
+			// Missing from its repo's listing and already known to be closed: nothing changed
+			if (!issue && listed && task.github_state && task.github_state !== 'open') continue;
+			try {
+				issue = issue || await this.fetchIssue(repo, number);
+				await this.syncTask(task, issue, result);
+			} catch (error) {
+				result.errors.push(`${repo}#${number}: ${error.message}`);
+			}
+		}
+		return result;
+	}
+
+	// Creates tasks for open issues in the project's repo that no task tracks yet
+	async importProjectIssues(project: Project, repo: string, issues: GitHubIssue[], result: GitHubSyncResult) {
+		for (const issue of issues.filter(i => !i.pull_request)) {
+			const tracked = this.plugin.tasks.some(t => t.github_repo === repo && t.github_issue === issue.number);
+			if (tracked) continue;
+			await this.plugin.createTask({
+				title: issue.title,
+				description: issue.body || undefined,
+				project_id: project.id,
+				github_repo: repo,
+				github_issue: issue.number,
+				github_state: 'open',
+				github_labels: GitHubSyncService.getLabels(issue)
+			});
+			result.imported++;
+		}
+	}
+
+	async syncTask(task: Task, issue: GitHubIssue, result: GitHubSyncResult) {
+		const state = GitHubSyncService.getState(issue);
+		const labels = GitHubSyncService.getLabels(issue);
+
+		const updates: Partial<Task> = {};
+		if (issue.title !== task.title) updates.title = issue.title;
+		if (labels.join('\n') !== (task.github_labels || []).join('\n')) updates.github_labels = labels;
+		if (state !== task.github_state) {
+			updates.github_state = state;
+			const isDone = this.plugin.isDoneStatus(task.status, task.project_id);
+			// A task that was never synced before only follows the issue if it is closed
+			if (state !== 'open' && !isDone) {
+				updates.status = this.plugin.getDoneStatus(task.project_id);
+				result.completed++;
+			} else if (state === 'open' && task.github_state && isDone) {
+				updates.status = this.plugin.getDefaultStatus(task.project_id);
+			}
+		}
+
+		if (Object.keys(updates).length > 0) {
+			await this.plugin.updateTask(task.id, updates);
+			result.updated++;
+		}
+	}
+}
+
+export class KanbanView extends ItemView {
+	plugin: ProjectManagerPlugin;
+	root: Root | null = null;
+	selectedProjectId: string | null = null;
+	filterText = '';
+
+	constructor(leaf: WorkspaceLeaf, plugin: ProjectManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_KANBAN;
+	}
+
+	getDisplayText() {
+		let title = "Project Kanban";
+		if (this.selectedProjectId) {
+			const project = this.plugin.projects.find(p => p.id === this.selectedProjectId);
+			if (project) title = `Kanban: ${project.name}`;
+		}
+		return this.filterText.trim() ? `${title} (${this.filterText.trim()})` : title;
+	}
+
+	setSelectedProject(projectId: string | null) {
+		this.selectedProjectId = projectId;
+		this.updateBoard();
+		this.updateHeader();
+	}
+
+	setFilterText(filterText: string) {
+		this.filterText = filterText;
+		this.updateBoard();
+		this.updateHeader();
+	}
+
+	// Redraws the tab title, which shows the project and filter
+	updateHeader() {
+		// updateHeader exists on leaves but isn't part of the typed API
+		const leaf = this.leaf as WorkspaceLeaf & { updateHeader?: () => void };
+		leaf.updateHeader?.();
+	}
+
+	async setSwimlanes(grouping: SwimlaneGrouping) {
+		this.plugin.settings.kanbanSwimlanes = grouping;
+		await this.plugin.saveSettings();
+		this.updateBoard();
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		container.createEl("div", { attr: { id: "kanban-root" } });
+		
+		const rootElement = container.querySelector("#kanban-root");
+		if (rootElement) {
+			this.root = createRoot(rootElement);
+			this.updateBoard();
+		}
+	}
+
+	updateBoard() {
+		if (this.root) {
+			// New array references let React pick up the change while keeping
+			// component state (such as an in-progress drag) intact
+			const projects = [...this.plugin.projects];
+			const tasks = [...this.plugin.tasks];
+			
+			this.root.render(React.createElement(KanbanBoard, { 
+				plugin: this.plugin,
+				projects: projects,
+				tasks: tasks,
+				selectedProjectId: this.selectedProjectId,
+				onProjectChange: (projectId: string | null) => this.setSelectedProject(projectId),
+				filterText: this.filterText,
+				onFilterChange: (filterText: string) => this.setFilterText(filterText),
+				swimlanes: this.plugin.settings.kanbanSwimlanes,
+				onSwimlanesChange: (grouping: SwimlaneGrouping) => this.setSwimlanes(grouping)
+			}));
+		}
+	}
+
+	async onClose() {
+		if (this.root) {
+			this.root.unmount();
+			// An unmounted root can't render again, so stop the plugin from refreshing this view
+			this.root = null;
+		}
+		if (this.plugin.kanbanView === this) {
+			this.plugin.kanbanView = null;
+		}
+	}
+}
+
+export class CalendarView extends ItemView {
+	plugin: ProjectManagerPlugin;
+	root: Root | null = null;
+	selectedProjectId: string | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ProjectManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_CALENDAR;
+	}
+
+	getDisplayText() {
+		const project = this.plugin.projects.find(p => p.id === this.selectedProjectId);
+		return project ? `Calendar: ${project.name}` : "Task Calendar";
+	}
+
+	getIcon() {
+		return 'calendar-days';
+	}
+
+	setSelectedProject(projectId: string | null) {
+		this.selectedProjectId = projectId;
+		this.updateCalendar();
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		this.root = createRoot(container.createDiv('calendar-root'));
+		this.updateCalendar();
+	}
+
+	updateCalendar() {
+		if (this.root) {
+			this.root.render(React.createElement(TaskCalendar, {
+				plugin: this.plugin,
+				projects: [...this.plugin.projects],
+				tasks: [...this.plugin.tasks],
+				selectedProjectId: this.selectedProjectId,
+				onProjectChange: (projectId: string | null) => this.setSelectedProject(projectId)
+			}));
+		}
+	}
+
+	async onClose() {
+		if (this.root) {
+			this.root.unmount();
+			// An unmounted root can't render again, so stop the plugin from refreshing this view
+			this.root = null;
+		}
+		if (this.plugin.calendarView === this) {
+			this.plugin.calendarView = null;
+		}
+	}
+}
+
+export class TimelineView extends ItemView {
+	plugin: ProjectManagerPlugin;
+	root: Root | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ProjectManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_TIMELINE;
+	}
+
+	getDisplayText() {
+		return "Project Timeline";
+	}
+
+	getIcon() {
+		return 'gantt-chart';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		this.root = createRoot(container.createDiv('timeline-root'));
+		this.updateTimeline();
+	}
+
+	updateTimeline() {
+		if (this.root) {
+			this.root.render(React.createElement(ProjectTimeline, {
+				plugin: this.plugin,
+				projects: [...this.plugin.projects],
+				tasks: [...this.plugin.tasks]
+			}));
+		}
+	}
+
+	async onClose() {
+		if (this.root) {
+			this.root.unmount();
+			// An unmounted root can't render again, so stop the plugin from refreshing this view
+			this.root = null;
+		}
+		if (this.plugin.timelineView === this) {
+			this.plugin.timelineView = null;
+		}
+	}
+}
+
+export class ProjectsOverviewView extends ItemView {
+	plugin: ProjectManagerPlugin;
+	root: Root | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ProjectManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_OVERVIEW;
+	}
+
+	getDisplayText() {
+		return "Projects Overview";
+	}
+
+	getIcon() {
+		return 'layout-dashboard';
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1];
+		container.empty();
+		this.root = createRoot(container.createDiv('overview-root'));
+		this.updateOverview();
+	}
+
+	updateOverview() {
+		if (this.root) {
+			this.root.render(React.createElement(ProjectsOverview, {
+				plugin: this.plugin,
+				projects: [...this.plugin.projects],
+				tasks: [...this.plugin.tasks]
+			}));
+		}
+	}
+
+	async onClose() {
+		if (this.root) {
+			this.root.unmount();
+			// An unmounted root can't render again, so stop the plugin from refreshing this view
+			this.root = null;
+		}
+		if (this.plugin.overviewView === this) {
+			this.plugin.overviewView = null;
+		}
+	}
+}
+
+/**
+ * Sidebar listing the projects and tasks linked to the active note, plus tasks
+ * imported from or mentioned in it. Follows whichever note is open.
+ */
+export class LinkedTasksView extends ItemView {
+	plugin: ProjectManagerPlugin;
+	file: TFile | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ProjectManagerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return VIEW_TYPE_LINKED_TASKS;
+	}
+
+	getDisplayText() {
+		return "Linked Tasks";
+	}
+
+	getIcon() {
+		return 'link';
+	}
+
+	async onOpen() {
+		this.file = this.app.workspace.getActiveFile();
+		this.registerEvent(this.app.workspace.on('file-open', (file: TFile | null) => {
+			this.file = file;
+			this.render();
+		}));
+		this.render();
+	}
+
+	render() {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass('linked-tasks-view');
+
+		const file = this.file;
+		if (!file) {
+			container.createDiv({text: 'Open a note to see its tasks', cls: 'pm-tasks-empty'});
+			return;
+		}
+
+		container.createEl('h4', {text: file.basename});
+		const { projects, tasks, mentions } = this.plugin.getNoteLinks(file);
+
+		if (projects.length > 0) {
+			container.createEl('h5', {text: 'Projects'});
+			const list = container.createDiv('pm-tasks-list');
+			projects.forEach(project => {
+				const row = list.createDiv('pm-tasks-item');
+				const nameEl = row.createSpan({text: project.name, cls: 'pm-tasks-title'});
+				nameEl.onclick = () => new ProjectDetailModal(this.app, this.plugin, project).open();
+				row.createSpan({text: project.status, cls: `project-status status-${project.status}`});
+				this.createUnlinkButton(row, () => this.plugin.unlinkNote('projects', project.id, this.findLinkPath(project, file)));
+			});
+		}
+
+		container.createEl('h5', {text: 'Tasks'});
+		if (tasks.length === 0) {
+			container.createDiv({text: 'No tasks are linked to this note', cls: 'pm-tasks-empty'});
+		} else {
+			const list = container.createDiv('pm-tasks-list');
+			tasks.forEach(task => {
+				const row = this.renderTask(list, task);
+				this.createUnlinkButton(row, () => this.plugin.unlinkNote('tasks', task.id, this.findLinkPath(task, file)));
+			});
+		}
+
+		if (mentions.length > 0) {
+			container.createEl('h5', {text: 'Mentioned in this note'});
+			const list = container.createDiv('pm-tasks-list');
+			mentions.forEach(task => this.renderTask(list, task));
+		}
+
+		const actions = container.createDiv('button-group');
+		const newTaskBtn = actions.createEl('button', {text: '+ New Linked Task', cls: 'mod-cta'});
+		newTaskBtn.onclick = () => new CreateTaskModal(this.app, this.plugin, null, undefined, undefined, file.path).open();
+		const linkBtn = actions.createEl('button', {text: 'Link Existing…'});
+		linkBtn.onclick = () => new LinkNoteModal(this.app, this.plugin, file).open();
+	}
+
+	renderTask(container: HTMLElement, task: Task): HTMLElement {
+		const row = container.createDiv(`pm-tasks-item priority-border-${task.priority}`);
+		const isDone = this.plugin.isDoneStatus(task.status, task.project_id);
+		const update = async (updates: Partial<Task>) => {
+			try {
+				await this.plugin.updateTask(task.id, updates);
+			} catch (error) {
+				console.error('Failed to update task:', error);
+				new Notice(`Could not update "${task.title}": ${error.message}`);
+			}
+		};
+
+		const statusSelect = row.createEl('select', {cls: 'pm-tasks-status'});
+		populateStatusSelect(statusSelect, this.plugin.getWorkflow(task.project_id), task.status);
+		statusSelect.onchange = () => update({ status: statusSelect.value });
+
+		const titleEl = row.createSpan({text: task.title, cls: `pm-tasks-title ${isDone ? 'is-done' : ''}`});
+		titleEl.onclick = () => new TaskDetailModal(this.app, this.plugin, task).open();
+
+		const prioritySelect = row.createEl('select', {cls: 'pm-tasks-priority'});
+		PRIORITIES.forEach(priority => prioritySelect.createEl('option', {value: priority, text: priority}));
+		prioritySelect.value = task.priority;
+		prioritySelect.onchange = () => update({ priority: prioritySelect.value as Task['priority'] });
+
+		return row;
+	}
+
+	// The stored path under which a record links to the file
+	findLinkPath(record: NoteLinkFields, file: TFile): string {
+		const link = getLinkedNotes(record).find(l => this.plugin.isLinkedTo(l.path, file));
+		return link ? link.path : file.path;
+	}
+
+	createUnlinkButton(row: HTMLElement, unlink: () => Promise<void>) {
+		const button = row.createEl('button', {text: 'Unlink', cls: 'pm-tasks-unlink'});
+		button.onclick = async () => {
+			try {
+				await unlink();
+			} catch (error) {
+				console.error('Failed to unlink note:', error);
+				new Notice(`Could not unlink the note: ${error.message}`);
+			}
+		};
+	}
+
+	async onClose() {
+		this.containerEl.children[1].empty();
+		if (this.plugin.linkedTasksView === this) {
+			this.plugin.linkedTasksView = null;
+		}
+	}
+}
+
+/**
+ * Renders a `pm-tasks` code block as a task list or mini-board and re-renders
+ * whenever the plugin's tasks change.
+ */
+class TaskQueryBlock extends MarkdownRenderChild {
+	private query: TaskQuery | null = null;
+	private error: string | null = null;
+
+	constructor(containerEl: HTMLElement, private plugin: ProjectManagerPlugin, source: string) {
+		super(containerEl);
+		try {
+			this.query = parseTaskQuery(source);
+		} catch (error) {
+			this.error = error.message;
+		}
+	}
+
+	onload() {
+		this.plugin.queryBlocks.add(this);
+		this.render();
+	}
+
+	onunload() {
+		this.plugin.queryBlocks.delete(this);
+	}
+
+	render() {
+		const el = this.containerEl;
+		el.empty();
+		el.addClass('pm-tasks-block');
+
+		if (!this.query) {
+			el.createDiv({text: `pm-tasks: ${this.error}`, cls: 'pm-tasks-error'});
+			return;
+		}
+
+		const tasks = this.plugin.queryTasks(this.query);
+		if (this.query.view === 'board') {
+			this.renderBoard(el, tasks);
+		} else {
+			this.renderList(el, tasks);
+		}
+	}
+
+	renderList(el: HTMLElement, tasks: Task[]) {
+		if (tasks.length === 0) {
+			el.createDiv({text: 'No matching tasks', cls: 'pm-tasks-empty'});
+			return;
+		}
+
+		const list = el.createDiv('pm-tasks-list');
+		tasks.forEach(task => this.renderTask(list, task));
+	}
+
+	renderBoard(el: HTMLElement, tasks: Task[]) {
+		const projectId = this.query?.projects.length === 1
+			? this.plugin.projects.find(p => p.name.toLowerCase() === this.query?.projects[0].toLowerCase())?.id || null
+			: null;
+		const board = el.createDiv('pm-tasks-board');
+		this.plugin.getBoardColumns(projectId, tasks).forEach(column => {
+			const columnTasks = tasks.filter(task => task.status === column.id);
+			const columnEl = board.createDiv('pm-tasks-column');
+			if (column.color) columnEl.style.borderTopColor = column.color;
+			const header = columnEl.createDiv('pm-tasks-column-header');
+			header.createSpan({text: column.name});
+			header.createSpan({text: String(columnTasks.length), cls: 'task-count'});
+			columnTasks.forEach(task => this.renderTask(columnEl, task));
+		});
+	}
+
+	renderTask(container: HTMLElement, task: Task) {
+		const row = container.createDiv(`pm-tasks-item priority-border-${task.priority}`);
+		const isDone = this.plugin.isDoneStatus(task.status, task.project_id);
+
+		// Status changes made here go through the same optimistic path as the board
+		const statusSelect = row.createEl('select', {cls: 'pm-tasks-status'});
+		populateStatusSelect(statusSelect, this.plugin.getWorkflow(task.project_id), task.status);
+		statusSelect.onchange = async () => {
+			try {
+				await this.plugin.updateTask(task.id, { status: statusSelect.value });
+			} catch (error) {
+				console.error('Failed to update task status:', error);
+				new Notice(`Could not update "${task.title}": ${error.message}`);
+			}
+		};
+
+		const titleEl = row.createSpan({text: task.title, cls: `pm-tasks-title ${isDone ? 'is-done' : ''}`});
+		titleEl.onclick = () => new TaskDetailModal(this.plugin.app, this.plugin, task).open();
+
+		const meta = row.createDiv('pm-tasks-meta');
+		meta.createSpan({text: task.priority, cls: `priority-indicator-text priority-${task.priority}`});
+		const project = this.plugin.projects.find(p => p.id === task.project_id);
+		if (project) meta.createSpan({text: project.name, cls: 'project-badge'});
+		if (task.due_date) meta.createSpan({text: new Date(task.due_date).toLocaleDateString(), cls: 'due-date'});
+	}
+}
+
+export default class ProjectManagerPlugin extends Plugin {
+	settings: ProjectManagerSettings;
+	supabase: SupabaseClient | null = null;
+	storage: ProjectManagerStorage | null = null;
+	projects: Project[] = [];
+	tasks: Task[] = [];
+	realtimeChannel: RealtimeChannel | null = null;
+	outbox: OutboxEntry[] = [];
+	// Frontmatter values each task's note was last synced with, by task id
+	noteFrontmatter: Record<string, Record<string, string>> = {};
+	flushingOutbox = false;
+	outboxRetryTimer: number | null = null;
+	outboxRetryDelay = OUTBOX_RETRY_MIN_MS;
+	pendingCheckboxFiles: Set<string> = new Set();
+	// Latest checkbox scan per note path; scans of the same note run one at a time
+	checkboxScans: Map<string, Promise<{ created: number; updated: number }>> = new Map();
+	queryBlocks: Set<TaskQueryBlock> = new Set();
+	statusBarItem: HTMLElement | null = null;
+	kanbanView: KanbanView | null = null;
+	calendarView: CalendarView | null = null;
+	timelineView: TimelineView | null = null;
+	overviewView: ProjectsOverviewView | null = null;
+	linkedTasksView: LinkedTasksView | null = null;
+	// Transport for GitHub sync; replaceable for testing against a fake API
+	httpClient: HttpClient = new ObsidianHttpClient();
+	syncingGitHub = false;
+
+	async onload() {
+		await this.loadSettings();
+
+		// Register the kanban view
+		this.registerView(
+			VIEW_TYPE_KANBAN,
+			(leaf) => {
+				this.kanbanView = new KanbanView(leaf, this);
+				return this.kanbanView;
+			}
+		);
+
+		this.registerView(
+			VIEW_TYPE_CALENDAR,
+			(leaf) => {
+				this.calendarView = new CalendarView(leaf, this);
+				return this.calendarView;
+			}
+		);
+
+		this.registerView(
+			VIEW_TYPE_TIMELINE,
+			(leaf) => {
+				this.timelineView = new TimelineView(leaf, this);
+				return this.timelineView;
+			}
+		);
+
+		this.registerView(
+			VIEW_TYPE_OVERVIEW,
+			(leaf) => {
+				this.overviewView = new ProjectsOverviewView(leaf, this);
+				return this.overviewView;
+			}
+		);
+
+		this.registerView(
+			VIEW_TYPE_LINKED_TASKS,
+			(leaf) => {
+				this.linkedTasksView = new LinkedTasksView(leaf, this);
+				return this.linkedTasksView;
+			}
+		);
+
+		// Add ribbon icon for project manager
+		const ribbonIconEl = this.addRibbonIcon('folder-tree', 'Project Manager', (evt: MouseEvent) => {
+			this.activateKanbanView();
+		});
+		ribbonIconEl.addClass('project-manager-ribbon-class');
+
+		// Add status bar for active tasks
+		this.statusBarItem = this.addStatusBarItem();
+		this.statusBarItem.addClass('mod-clickable');
+		this.statusBarItem.onClickEvent(() => {
+			if (this.outbox.length > 0) {
+				new OutboxModal(this.app, this).open();
+			}
+		});
+		this.updateStatusBar();
+
+		// Commands for project management
+		this.addCommand({
+			id: 'create-new-project',
+			name: 'Create New Project',
+			callback: () => {
+				new CreateProjectModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'create-new-task',
+			name: 'Create New Task',
+			callback: () => {
+				new CreateTaskModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-project-manager',
+			name: 'Open Project Manager',
+			callback: () => {
+				this.activateKanbanView();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-task-calendar',
+			name: 'Open Task Calendar',
+			callback: () => {
+				this.activateView(VIEW_TYPE_CALENDAR);
+			}
+		});
+
+		this.addCommand({
+			id: 'open-projects-overview',
+			name: 'Open Projects Overview',
+			callback: () => {
+				this.activateView(VIEW_TYPE_OVERVIEW);
+			}
+		});
+
+		this.addCommand({
+			id: 'open-linked-tasks',
+			name: 'Open Linked Tasks Sidebar',
+			callback: () => {
+				this.activateView(VIEW_TYPE_LINKED_TASKS);
+			}
+		});
+
+		this.addCommand({
+			id: 'open-project-timeline',
+			name: 'Open Project Timeline',
+			callback: () => {
+				this.activateView(VIEW_TYPE_TIMELINE);
+			}
+		});
+
+		this.addCommand({
+			id: 'edit-project',
+			name: 'Edit Project',
+			callback: () => {
+				new ProjectSuggestModal(this.app, this, project => {
+					new ProjectDetailModal(this.app, this, project).open();
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'create-project-note',
+			name: 'Create Project Note',
+			callback: () => {
+				new ProjectSuggestModal(this.app, this, project => {
+					if (project.markdown_file) {
+						this.app.workspace.openLinkText(project.markdown_file, '');
+					} else {
+						this.createNoteFromProject(project);
+					}
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'open-project-kanban',
+			name: 'Open Project Kanban',
+			callback: () => {
+				this.openProjectKanbanSelector();
+			}
+		});
+		// Editor command to link current note to project/task
+		this.addCommand({
+			id: 'link-note-to-project',
+			name: 'Link Note to Project',
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const file = view.file;
+				if (file) {
+					new LinkNoteModal(this.app, this, file).open();
+				}
+			}
+		});
+		// Commands to turn markdown checkboxes into tasks
+		this.addCommand({
+			id: 'import-checkboxes-from-note',
+			name: 'Import Checkboxes from Current Note',
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) {
+					this.importCheckboxes([file]);
+				}
+				return true;
+			}
+		});
+
+		this.addCommand({
+			id: 'import-checkboxes-from-folder',
+			name: 'Import Checkboxes from Folder',
+			callback: () => {
+				new FolderSuggestModal(this.app, (folder) => {
+					const files = this.app.vault.getMarkdownFiles().filter(f => f.path.startsWith(folder.isRoot() ? '' : `${folder.path}/`));
+					this.importCheckboxes(files);
+				}).open();
+			}
+		});
+
+		// Command to refresh data
+		this.addCommand({
+			id: 'refresh-projects-tasks',
+			name: 'Refresh Projects and Tasks',
+			callback: () => {
+				this.loadProjectsAndTasks();
+				new Notice('Refreshed project data');
+			}
+		});
+
+		// Command to reconnect to the storage backend
+		this.addCommand({
+			id: 'reconnect-supabase',
+			name: 'Reconnect to Storage Backend',
+			callback: () => {
+				this.initializeStorage();
+				this.loadProjectsAndTasks();
+			}
+		});
+
+		// Command to inspect changes waiting to be synced
+		this.addCommand({
+			id: 'show-pending-changes',
+			name: 'Show Pending Changes',
+			callback: () => {
+				new OutboxModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-data',
+			name: 'Export Projects and Tasks',
+			callback: () => {
+				new ExportModal(this.app, this).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'import-data',
+			name: 'Import Projects and Tasks',
+			callback: () => {
+				new ExportFileSuggestModal(this.app, this, async (file) => {
+					try {
+						const plan = await this.planImportFile(file);
+						new ImportPreviewModal(this.app, this, file, plan).open();
+					} catch (error) {
+						console.error('Failed to read import file:', error);
+						new Notice(`Could not import ${file.name}: ${error.message}`);
+					}
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'export-kanban-board',
+			name: 'Export Kanban Board to Markdown',
+			callback: () => {
+				const projectId = this.kanbanView?.selectedProjectId;
+				const project = this.projects.find(p => p.id === projectId);
+				if (project) {
+					this.exportKanbanBoardWithNotice(project);
+				} else {
+					new ProjectSuggestModal(this.app, this, selected => this.exportKanbanBoardWithNotice(selected)).open();
+				}
+			}
+		});
+
+		this.addCommand({
+			id: 'import-kanban-board',
+			name: 'Import Kanban Board from Markdown',
+			callback: () => {
+				new KanbanBoardFileSuggestModal(this.app, this, file => {
+					new ProjectSuggestModal(this.app, this, async (project) => {
+						try {
+							const plan = await this.planKanbanBoardImport(file, project.id);
+							new ImportPreviewModal(this.app, this, file, plan).open();
+						} catch (error) {
+							console.error('Failed to read Kanban board:', error);
+							new Notice(`Could not import ${file.name}: ${error.message}`);
+						}
+					}).open();
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'sync-github-issues',
+			name: 'Sync GitHub Issues',
+			callback: () => {
+				this.syncGitHub();
+			}
+		});
+
+		this.addCommand({
+			id: 'repair-note-links',
+			name: 'Repair Broken Note Links',
+			callback: () => {
+				this.repairNoteLinks();
+			}
+		});
+
+		// Live task lists inside notes
+		this.registerMarkdownCodeBlockProcessor('pm-tasks', (source, el, ctx) => {
+			ctx.addChild(new TaskQueryBlock(el, this, source));
+		});
+
+		// Settings tab
+		this.addSettingTab(new ProjectManagerSettingTab(this.app, this));
+
+		// Reload when the vault store is changed from outside (e.g. by sync)
+		this.registerEvent(this.app.vault.on('modify', async (file: TAbstractFile) => {
+			if (this.settings.storageBackend === 'vault' && file.path === normalizePath(this.settings.vaultStorePath)) {
+				// Our own writes are already reflected in memory
+				if (this.storage instanceof VaultStorage && await this.storage.isOwnWrite()) return;
+				this.loadProjectsAndTasks();
+			}
+		}));
+
+		// Background checkbox sync for notes in the configured folder
+		this.registerEvent(this.app.vault.on('modify', (file: TAbstractFile) => {
+			if (file instanceof TFile && this.isCheckboxSyncTarget(file)) {
+				this.pendingCheckboxFiles.add(file.path);
+				this.processPendingCheckboxFiles();
+			}
+		}));
+
+		// Keep linked note paths pointing at the right file
+		this.registerEvent(this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+			this.handleFileRenamed(file, oldPath);
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file: TAbstractFile) => {
+			this.handleFileDeleted(file);
+		}));
+
+		// Pick up frontmatter edits in linked task notes
+		this.registerEvent(this.app.metadataCache.on('changed', (file, data, cache) => {
+			this.syncNoteToTask(file, cache.frontmatter);
+		}));
+
+		// Initialize storage backend and replay anything queued while offline
+		this.initializeStorage();
+		
+		// Load initial data
+		this.loadProjectsAndTasks();
+
+		// Periodically reconcile with the backend in case realtime events were missed
+		this.registerInterval(window.setInterval(() => {
+			if (this.outbox.length > 0) {
+				// Replaying reconciles afterwards
+				this.flushOutbox(false);
+			} else if (this.supabase && this.settings.enableRealtime) {
+				this.reconcile();
+			}
+		}, RECONCILE_INTERVAL_MS));
+
+	}
+
+	onunload() {
+		if (this.realtimeChannel) {
+			this.realtimeChannel.unsubscribe();
+		}
+		if (this.outboxRetryTimer !== null) {
+			window.clearTimeout(this.outboxRetryTimer);
+		}
+	}
+
+	initializeStorage() {
+		if (this.settings.storageBackend === 'vault') {
+			if (this.realtimeChannel) {
+				this.realtimeChannel.unsubscribe();
+				this.realtimeChannel = null;
+			}
+			this.supabase = null;
+			this.storage = new VaultStorage(this.app, normalizePath(this.settings.vaultStorePath));
+			this.flushOutbox();
+			return;
+		}
+
+		this.initializeSupabase();
+	}
+
+	initializeSupabase() {
+		if (this.settings.supabaseUrl && this.settings.supabaseKey) {
+			this.supabase = createClient(this.settings.supabaseUrl, this.settings.supabaseKey);
+			this.storage = new SupabaseStorage(this.supabase);
+			
+			if (this.settings.enableRealtime) {
+				this.setupRealtimeSubscriptions();
+			}
+			
+			new Notice('Connected to Supabase');
+			this.flushOutbox();
+		} else {
+			this.supabase = null;
+			this.storage = null;
+			new Notice('Please configure Supabase settings');
+		}
+	}
+
+	setupRealtimeSubscriptions() {
+		if (!this.supabase) return;
+		
+		// Cleanup existing subscription
+		if (this.realtimeChannel) {
+			this.realtimeChannel.unsubscribe();
+		}
+		
+		let subscribedBefore = false;
+		this.realtimeChannel = this.supabase
+			.channel('project-manager-changes')
+			.on<Project>('postgres_changes', 
+				{ event: '*', schema: 'public', table: 'projects' },
+				(payload) => {
+					// Merge the changed row in place instead of refetching the table
+					this.projects = this.applyPendingChanges('projects', applyRealtimePayload(this.projects, payload));
+					this.refreshViews();
+				}
+			)
+			.on<Task>('postgres_changes',
+				{ event: '*', schema: 'public', table: 'tasks' },
+				(payload) => {
+					this.tasks = this.applyPendingChanges('tasks', applyRealtimePayload(this.tasks, payload));
+					this.refreshViews();
+
+					if (payload.eventType === 'UPDATE') {
+						const task = this.tasks.find(t => t.id === payload.new.id);
+						if (task) this.syncTaskToNote(task);
+					}
+				}
+			)
+			.subscribe((status) => {
+				console.log('Realtime subscription status:', status);
+				if (status === 'SUBSCRIBED') {
+					// Replay queued changes whenever the connection comes back
+					this.flushOutbox();
+					// Events may have been missed while disconnected
+					if (subscribedBefore) {
+						this.reconcile();
+					}
+					subscribedBefore = true;
+				}
+			});
+	}
+
+	/**
+	 * Refetches both tables and replaces the in-memory state, without notices.
+	 * Runs periodically and after realtime reconnects to catch missed events.
+	 */
+	async reconcile() {
+		if (!this.storage || this.flushingOutbox) return;
+
+		try {
+			const [projects, tasks] = await Promise.all([this.storage.loadProjects(), this.storage.loadTasks()]);
+			this.projects = this.applyPendingChanges('projects', projects);
+			this.tasks = this.applyPendingChanges('tasks', tasks);
+			this.refreshViews();
+		} catch (error) {
+			console.warn('Failed to reconcile project data:', error);
+		}
+	}
+
+	refreshViews() {
+		if (this.kanbanView) {
+			this.kanbanView.updateBoard();
+		}
+		if (this.calendarView) {
+			this.calendarView.updateCalendar();
+		}
+		if (this.timelineView) {
+			this.timelineView.updateTimeline();
+		}
+		if (this.overviewView) {
+			this.overviewView.updateOverview();
+		}
+		if (this.linkedTasksView) {
+			this.linkedTasksView.render();
+		}
+		this.queryBlocks.forEach(block => block.render());
+		this.updateStatusBar();
+	}
+
+	queryTasks(query: TaskQuery): Task[] {
+		let result = this.tasks.filter(task => this.matchesTaskQuery(task, query));
+
+		const sort = query.sort;
+		if (sort) {
+			result = [...result].sort((a, b) => compareTasks(a, b, sort) * (query.sortDescending ? -1 : 1));
+		}
+		return query.limit ? result.slice(0, query.limit) : result;
+	}
+
+	matchesTaskQuery(task: Task, query: TaskQuery): boolean {
+		const matchesProject = (task: Task) => {
+			if (query.projects.length === 0) return true;
+			const project = this.projects.find(p => p.id === task.project_id);
+			return query.projects.some(name =>
+				name === task.project_id || (project && project.name.toLowerCase() === name.toLowerCase())
+			);
+		};
+		const matchesStatus = (task: Task) => query.statuses.length === 0
+			|| query.statuses.includes(task.status.toLowerCase())
+			|| query.statuses.includes(this.getStatusName(task.status, task.project_id).toLowerCase());
+		const matchesDue = (task: Task) => {
+			if (!query.due) return true;
+			// Resolved now rather than when parsed, so "today" or "<7d" move on with the date
+			const range = parseDueRange(query.due);
+			if (!range || !task.due_date) return false;
+			const due = new Date(task.due_date).getTime();
+			return (!range.after || due >= range.after.getTime())
+				&& (!range.before || due <= range.before.getTime());
+		};
+
+		const hasField = (field: string) => {
+			switch (field) {
+				case 'note': return getLinkedNotes(task).length > 0;
+				case 'due': return !!task.due_date;
+				case 'repo': return !!task.github_repo;
+				case 'subtasks': return this.tasks.some(t => t.parent_id === task.id);
+				case 'blockers': return this.getOpenBlockers(task).length > 0;
+				case 'parent': return !!task.parent_id;
+				case 'recurring': return !!task.recurrence;
+				default: return false;
+			}
+		};
+		const searchable = `${task.title}\n${task.description || ''}`.toLowerCase();
+
+		return matchesProject(task)
+			&& matchesStatus(task)
+			&& (query.priorities.length === 0 || query.priorities.includes(task.priority))
+			&& matchesDue(task)
+			&& query.has.every(hasField)
+			&& (query.repos.length === 0 || query.repos.some(repo => (task.github_repo || '').toLowerCase().includes(repo)))
+			&& query.text.every(text => searchable.includes(text));
+	}
+
+	async loadProjectsAndTasks() {
+		await Promise.all([this.loadProjects(), this.loadTasks()]);
+		this.updateStatusBar();
+	}
+
+	async loadProjects() {
+		if (!this.storage) return;
+		
+		try {
+			this.projects = this.applyPendingChanges('projects', await this.storage.loadProjects());
+			this.refreshViews();
+		} catch (error) {
+			console.error('Failed to load projects:', error);
+			new Notice('Failed to load projects');
+		}
+	}
+
+	async loadTasks() {
+		if (!this.storage) return;
+		
+		try {
+			this.tasks = this.applyPendingChanges('tasks', await this.storage.loadTasks());
+			this.refreshViews();
+		} catch (error) {
+			console.error('Failed to load tasks:', error);
+			new Notice('Failed to load tasks');
+		}
+	}
+
+	async createProject(fields: Pick<Project, 'name'> & Partial<Project>): Promise<Project> {
+		const now = new Date().toISOString();
+		const project: Project = {
+			id: crypto.randomUUID(),
+			status: 'active',
+			created_at: now,
+			updated_at: now,
+			...fields
+		};
+		await this.commitChange({ table: 'projects', action: 'insert', recordId: project.id, payload: project });
+		return project;
+	}
+
+	async updateProject(id: string, updates: Partial<Project>): Promise<void> {
+		await this.commitChange({ table: 'projects', action: 'update', recordId: id, payload: { ...updates, updated_at: new Date().toISOString() } });
+
+		// Task notes carry the project name in their frontmatter
+		if (updates.name !== undefined) {
+			for (const task of this.tasks.filter(t => t.project_id === id)) {
+				await this.syncTaskToNote(task);
+			}
+		}
+	}
+
+	async deleteProject(id: string, taskHandling: ProjectTaskHandling = { action: 'unassign' }): Promise<void> {
+		for (const task of this.tasks.filter(t => t.project_id === id)) {
+			if (taskHandling.action === 'delete') {
+				await this.deleteTask(task.id);
+			} else if (taskHandling.action === 'move') {
+				// Keep the status if the other project's workflow has it
+				const workflow = this.getWorkflow(taskHandling.projectId);
+				await this.updateTask(task.id, {
+					project_id: taskHandling.projectId,
+					status: workflow.columns.some(c => c.id === task.status) ? task.status : this.getDefaultStatus(taskHandling.projectId)
+				});
+			} else {
+				await this.updateTask(task.id, { project_id: null });
+			}
+		}
+
+		await this.commitChange({ table: 'projects', action: 'delete', recordId: id });
+
+		if (this.settings.projectWorkflows[id]) {
+			delete this.settings.projectWorkflows[id];
+			await this.saveSettings();
+		}
+		if (this.kanbanView && this.kanbanView.selectedProjectId === id) {
+			this.kanbanView.setSelectedProject(null);
+		}
+		if (this.calendarView && this.calendarView.selectedProjectId === id) {
+			this.calendarView.setSelectedProject(null);
+		}
+	}
+
+	// Projects offered in pickers; includeId keeps the current choice even when it is archived
+	getSelectableProjects(includeId?: string | null): Project[] {
+		return this.projects.filter(project =>
+			this.settings.showArchivedProjects || project.status !== 'archived' || project.id === includeId);
+	}
+
+	async createTask(fields: Pick<Task, 'title'> & Partial<Task>): Promise<Task> {
+		const now = new Date().toISOString();
+		const task: Task = {
+			id: crypto.randomUUID(),
+			status: this.getDefaultStatus(fields.project_id),
+			priority: 'medium',
+			created_at: now,
+			updated_at: now,
+			...fields
+		};
+		await this.commitChange({ table: 'tasks', action: 'insert', recordId: task.id, payload: task });
+		return task;
+	}
+
+	async updateTask(id: string, updates: Partial<Task>): Promise<void> {
+		const before = this.tasks.find(t => t.id === id);
+		await this.commitChange({ table: 'tasks', action: 'update', recordId: id, payload: { ...updates, updated_at: new Date().toISOString() } });
+
+		const after = this.tasks.find(t => t.id === id);
+		if (before && after) {
+			await this.handleTaskUpdated(before, after);
+		}
+	}
+
+	async deleteTask(id: string): Promise<void> {
+		const children = this.tasks.filter(t => t.parent_id === id);
+		const dependents = this.getDependents(id);
+		await this.commitChange({ table: 'tasks', action: 'delete', recordId: id });
+
+		// Subtasks of a deleted task become top-level tasks
+		await Promise.all(children.map(child => this.updateTask(child.id, { parent_id: null })));
+
+		// A deleted task no longer blocks anything
+		await Promise.all(dependents.map(dependent => this.updateTask(dependent.id, {
+			blocked_by: (dependent.blocked_by || []).filter(blockerId => blockerId !== id)
+		})));
+	}
+
+	// Follow-up work after a task changed locally, e.g. rolling subtask progress up to the parent
+	async handleTaskUpdated(before: Task, after: Task) {
+		if (before.status !== after.status) {
+			await this.completeParentIfDone(after);
+
+			const wasDone = this.isDoneStatus(before.status, before.project_id);
+			const isDone = this.isDoneStatus(after.status, after.project_id);
+			if (!wasDone && isDone) {
+				this.suggestUnblockingDependents(after);
+				await this.createNextOccurrence(after);
+			} else if (wasDone && !isDone) {
+				// A reopened task blocks its dependents again
+				for (const dependent of this.getDependents(after.id)) {
+					await this.blockIfDependenciesOpen(dependent);
+				}
+			}
+		}
+
+		const blockersChanged = (before.blocked_by || []).join() !== (after.blocked_by || []).join();
+		if (blockersChanged) {
+			await this.blockIfDependenciesOpen(after);
+			if (this.getOpenBlockers(after).length === 0 && (before.blocked_by || []).length > 0) {
+				this.suggestUnblocking(after);
+			}
+		}
+
+		const current = this.tasks.find(t => t.id === after.id);
+		if (current) {
+			await this.syncTaskToNote(current);
+			if (before.status !== after.status || before.title !== after.title) {
+				await this.writeTaskCheckbox(current);
+			}
+		}
+	}
+
+	isCheckboxSyncTarget(file: TFile): boolean {
+		if (!this.settings.checkboxSync || file.extension !== 'md') return false;
+		const folder = normalizePath(this.settings.checkboxSyncFolder || '/');
+		return folder === '/' || file.path.startsWith(`${folder}/`);
+	}
+
+	// Edits arrive keystroke by keystroke, so scans wait until typing pauses
+	processPendingCheckboxFiles = debounce(async () => {
+		const paths = Array.from(this.pendingCheckboxFiles);
+		this.pendingCheckboxFiles.clear();
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.syncCheckboxesInFile(file);
+			}
+		}
+	}, 2000, true);
+
+	async importCheckboxes(files: TFile[]) {
+		let created = 0;
+		let updated = 0;
+		for (const file of files) {
+			const result = await this.syncCheckboxesInFile(file);
+			created += result.created;
+			updated += result.updated;
+		}
+		new Notice(`Imported ${created} new task${created === 1 ? '' : 's'}, updated ${updated}`);
+	}
+
+	/**
+	 * Turns unmarked checkbox items in a note into tasks and tags each line with
+	 * a %%pm:<id>%% marker. Lines that already carry a marker update their task:
+	 * ticking the box marks it done, and edits to the text rename it.
+	 * A scan waits for any earlier scan of the same note, which may still be
+	 * tagging lines, so no line is imported twice.
+	 */
+	syncCheckboxesInFile(file: TFile): Promise<{ created: number; updated: number }> {
+		const previous = this.checkboxScans.get(file.path);
+		const scan = (previous ? previous.catch(() => undefined) : Promise.resolve())
+			.then(() => this.scanCheckboxesInFile(file))
+			.finally(() => {
+				if (this.checkboxScans.get(file.path) === scan) this.checkboxScans.delete(file.path);
+			});
+		this.checkboxScans.set(file.path, scan);
+		return scan;
+	}
+
+	private async scanCheckboxesInFile(file: TFile): Promise<{ created: number; updated: number }> {
+		const content = await this.app.vault.read(file);
+		// Cards on Kanban boards are handled by board import and export
+		if (isKanbanBoardContent(content)) return { created: 0, updated: 0 };
+		const lines = content.split('\n');
+		let created = 0;
+		let updated = 0;
+
+		for (let index = 0; index < lines.length; index++) {
+			const match = lines[index].match(CHECKBOX_REGEX);
+			if (!match) continue;
+
+			const checked = match[2] !== ' ';
+			const marker = match[4].match(CHECKBOX_MARKER_REGEX);
+			const title = match[4].replace(CHECKBOX_MARKER_REGEX, '').trim();
+			if (!title) continue;
+
+			try {
+				if (marker) {
+					const task = this.tasks.find(t => t.id === marker[1]);
+					if (!task) continue;
+
+					const updates: Partial<Task> = {};
+					if (title !== task.title) updates.title = title;
+					if (task.source_file !== file.path || task.source_line !== index) {
+						updates.source_file = file.path;
+						updates.source_line = index;
+					}
+					if (checked !== this.isDoneStatus(task.status, task.project_id)) {
+						updates.status = checked ? this.getDoneStatus(task.project_id) : this.getDefaultStatus(task.project_id);
+					}
+					if (Object.keys(updates).length > 0) {
+						await this.updateTask(task.id, updates);
+						updated++;
+					}
+				} else {
+					const task = await this.createTask({
+						title,
+						status: checked ? this.getDoneStatus(null) : this.getDefaultStatus(null),
+						source_file: file.path,
+						source_line: index
+					});
+					created++;
+					// Tag the line right away, so a line edited meanwhile isn't imported again
+					await this.writeCheckboxMarker(file, lines[index], index, task.id);
+				}
+			} catch (error) {
+				console.error('Failed to sync checkbox:', error);
+				new Notice(`Could not sync checkbox "${title}": ${error.message}`);
+			}
+		}
+
+		return { created, updated };
+	}
+
+	/**
+	 * Appends a task's marker to the checkbox line it was created from. The note
+	 * may have changed while the task was being created, so the line is found
+	 * again by its text; if it was edited, the unmarked checkbox still at its
+	 * old index is tagged instead.
+	 */
+	async writeCheckboxMarker(file: TFile, line: string, index: number, taskId: string) {
+		await this.app.vault.process(file, (current) => {
+			const currentLines = current.split('\n');
+			let target = currentLines.indexOf(line);
+			if (target < 0) {
+				const match = currentLines[index]?.match(CHECKBOX_REGEX);
+				if (!match || CHECKBOX_MARKER_REGEX.test(match[4])) return current;
+				target = index;
+			}
+			currentLines[target] = `${currentLines[target].trimEnd()} %%pm:${taskId}%%`;
+			return currentLines.join('\n');
+		});
+	}
+
+	/** Ticks or unticks (and renames) the checkbox a task was imported from. */
+	async writeTaskCheckbox(task: Task) {
+		if (!task.source_file) return;
+		const file = this.app.vault.getAbstractFileByPath(task.source_file);
+		if (!(file instanceof TFile)) return;
+
+		const done = this.isDoneStatus(task.status, task.project_id);
+		await this.app.vault.process(file, (content) => {
+			const lines = content.split('\n');
+			const index = lines.findIndex(line => {
+				const marker = line.match(CHECKBOX_REGEX)?.[4].match(CHECKBOX_MARKER_REGEX);
+				return marker?.[1] === task.id;
+			});
+			if (index < 0) return content;
+
+			const match = lines[index].match(CHECKBOX_REGEX) as RegExpMatchArray;
+			lines[index] = `${match[1]}${done ? 'x' : ' '}${match[3]}${task.title} %%pm:${task.id}%%`;
+			return lines.join('\n');
+		});
+	}
+
+	getTaskFrontmatter(task: Task): Record<string, string> {
+		const project = this.projects.find(p => p.id === task.project_id);
+		return {
+			task_id: task.id,
+			status: task.status,
+			priority: task.priority,
+			due: task.due_date ? toLocalDateString(new Date(task.due_date)) : '',
+			project: project?.name || '',
+			github_repo: task.github_repo || ''
+		};
+	}
+
+	getFrontmatterDifferences(expected: Record<string, string>, frontmatter: Record<string, unknown> | undefined): string[] {
+		return FRONTMATTER_KEYS.filter(key => getFrontmatterValue(frontmatter, key) !== expected[key]);
+	}
+
+	async recordNoteFrontmatter(taskId: string, values: Record<string, string>) {
+		if (JSON.stringify(this.noteFrontmatter[taskId]) === JSON.stringify(values)) return;
+		this.noteFrontmatter[taskId] = values;
+		await this.saveSettings();
+	}
+
+	/** Writes the task's fields into its linked note's frontmatter, if they differ. */
+	async syncTaskToNote(task: Task) {
+		if (!this.settings.syncFrontmatter || !task.markdown_file) return;
+
+		const file = this.app.vault.getAbstractFileByPath(task.markdown_file);
+		if (!(file instanceof TFile) || file.extension !== 'md') return;
+
+		const expected = this.getTaskFrontmatter(task);
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (this.getFrontmatterDifferences(expected, cache?.frontmatter).length === 0) {
+			await this.recordNoteFrontmatter(task.id, expected);
+			return;
+		}
+
+		try {
+			await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+				FRONTMATTER_KEYS.forEach(key => {
+					if (expected[key]) {
+						frontmatter[key] = expected[key];
+					} else {
+						delete frontmatter[key];
+					}
+				});
+			});
+			await this.recordNoteFrontmatter(task.id, expected);
+		} catch (error) {
+			console.error('Failed to update note frontmatter:', error);
+		}
+	}
+
+	/**
+	 * Applies frontmatter edits in a linked note back to its task.
+	 *
+	 * The note's values are compared with those it was last synced with: keys
+	 * that changed there were edited in the note and are applied to the task,
+	 * while any other difference means the task changed since (for instance
+	 * remotely) and the note is rewritten from the task. Without a record of a
+	 * previous sync, the task wins. Values that aren't valid (unknown status,
+	 * priority or project) are ignored.
+	 */
+	async syncNoteToTask(file: TFile, frontmatter: Record<string, unknown> | undefined) {
+		if (!this.settings.syncFrontmatter || !frontmatter?.task_id) return;
+
+		const task = this.tasks.find(t => t.id === String(frontmatter.task_id));
+		if (!task || task.markdown_file !== file.path) return;
+
+		const expected = this.getTaskFrontmatter(task);
+		const changed = this.getFrontmatterDifferences(expected, frontmatter);
+		if (changed.length === 0) {
+			await this.recordNoteFrontmatter(task.id, expected);
+			return;
+		}
+
+		const synced = this.noteFrontmatter[task.id];
+		const edited = synced ? changed.filter(key => getFrontmatterValue(frontmatter, key) !== (synced[key] ?? '')) : [];
+		if (edited.length === 0) {
+			await this.syncTaskToNote(task);
+			return;
+		}
+
+		const text = (key: string) => {
+			const value = frontmatter[key];
+			return value === undefined || value === null ? '' : String(value).trim();
+		};
+		const updates: Partial<Task> = {};
+		edited.forEach(key => {
+			const value = text(key);
+			if (key === 'status' && this.getWorkflow(task.project_id).columns.some(c => c.id === value)) {
+				updates.status = value;
+			} else if (key === 'priority' && ['low', 'medium', 'high', 'urgent'].includes(value)) {
+				updates.priority = value as Task['priority'];
+			} else if (key === 'due') {
+				const due = parseLocalDate(value);
+				if (!value) {
+					updates.due_date = null;
+				} else if (due) {
+					// The note only holds the day; keep the task's time of day
+					if (task.due_date) {
+						const current = new Date(task.due_date);
+						due.setHours(current.getHours(), current.getMinutes(), current.getSeconds());
+					}
+					updates.due_date = due.toISOString();
+				}
+			} else if (key === 'project') {
+				const project = this.projects.find(p => p.name === value);
+				if (!value) updates.project_id = null;
+				else if (project) updates.project_id = project.id;
+			} else if (key === 'github_repo') {
+				updates.github_repo = value || null;
+			}
+		});
+
+		if (Object.keys(updates).length > 0) {
+			try {
+				await this.updateTask(task.id, updates);
+			} catch (error) {
+				console.error('Failed to apply note frontmatter to task:', error);
+				new Notice(`Could not update "${task.title}" from its note: ${error.message}`);
+			}
+		} else {
+			// Nothing usable in the note; restore the task's values
+			await this.syncTaskToNote(task);
+		}
+	}
+
+	/**
+	 * Spawns the next occurrence of a recurring task that was just completed.
+	 * The rule moves to the new task so reopening the old one can't spawn twice.
+	 */
+	async createNextOccurrence(task: Task) {
+		if (!task.recurrence) return;
+
+		const rule = task.recurrence;
+		const dueDate = getNextDueDate(task, rule, new Date());
+		await this.updateTask(task.id, { recurrence: null });
+		await this.createTask({
+			title: task.title,
+			description: task.description,
+			priority: task.priority,
+			project_id: task.project_id,
+			parent_id: task.parent_id,
+			github_repo: task.github_repo,
+			due_date: dueDate.toISOString(),
+			recurrence: rule
+		});
+		new Notice(`Next "${task.title}" scheduled for ${dueDate.toLocaleDateString()}`);
+	}
+
+	getBlockers(task: Task): Task[] {
+		const blockerIds = task.blocked_by || [];
+		return this.tasks.filter(t => blockerIds.includes(t.id));
+	}
+
+	getOpenBlockers(task: Task): Task[] {
+		return this.getBlockers(task).filter(t => !this.isDoneStatus(t.status, t.project_id));
+	}
+
+	getDependents(taskId: string): Task[] {
+		return this.tasks.filter(t => (t.blocked_by || []).includes(taskId));
+	}
+
+	// The blocked column is the one whose id is "blocked" in the task's workflow, if it has one
+	getBlockedStatus(projectId?: string | null): string | null {
+		return this.getWorkflow(projectId).columns.some(c => c.id === 'blocked') ? 'blocked' : null;
+	}
+
+	async addDependency(taskId: string, blockerId: string) {
+		const task = this.tasks.find(t => t.id === taskId);
+		if (!task || taskId === blockerId) return;
+		if ((task.blocked_by || []).includes(blockerId)) return;
+
+		// Adding the link closes a cycle if the blocker already (indirectly) waits on the task
+		const path = findDependencyPath(this.tasks, blockerId, taskId);
+		if (path) {
+			const titles = [taskId, ...path].map(id => this.tasks.find(t => t.id === id)?.title || id);
+			throw new Error(`This would create a dependency cycle: ${titles.join(' → ')}`);
+		}
+
+		await this.updateTask(taskId, { blocked_by: [...(task.blocked_by || []), blockerId] });
+	}
+
+	async removeDependency(taskId: string, blockerId: string) {
+		const task = this.tasks.find(t => t.id === taskId);
+		if (!task) return;
+		await this.updateTask(taskId, { blocked_by: (task.blocked_by || []).filter(id => id !== blockerId) });
+	}
+
+	async blockIfDependenciesOpen(task: Task) {
+		const blockedStatus = this.getBlockedStatus(task.project_id);
+		if (!blockedStatus || task.status === blockedStatus) return;
+		if (this.isDoneStatus(task.status, task.project_id)) return;
+
+		const openBlockers = this.getOpenBlockers(task);
+		if (openBlockers.length > 0) {
+			await this.updateTask(task.id, { status: blockedStatus });
+			new Notice(`"${task.title}" is blocked by ${openBlockers.map(t => `"${t.title}"`).join(', ')}`);
+		}
+	}
+
+	suggestUnblockingDependents(task: Task) {
+		this.getDependents(task.id).forEach(dependent => this.suggestUnblocking(dependent));
+	}
+
+	// Offers (rather than forces) moving a blocked task back once nothing blocks it any more
+	suggestUnblocking(task: Task) {
+		const current = this.tasks.find(t => t.id === task.id);
+		if (!current || current.status !== this.getBlockedStatus(current.project_id)) return;
+		if (this.getOpenBlockers(current).length > 0) return;
+
+		const targetStatus = this.getDefaultStatus(current.project_id);
+		const fragment = document.createDocumentFragment();
+		fragment.createSpan({ text: `"${current.title}" is no longer blocked. ` });
+		const moveBtn = fragment.createEl('button', { text: `Move to ${this.getStatusName(targetStatus, current.project_id)}` });
+		const notice = new Notice(fragment, 15000);
+		moveBtn.onclick = async () => {
+			notice.hide();
+			try {
+				await this.updateTask(current.id, { status: targetStatus });
+			} catch (error) {
+				console.error('Failed to unblock task:', error);
+				new Notice(`Could not move "${current.title}": ${error.message}`);
+			}
+		};
+	}
+
+	getSubtasks(parentId: string): Task[] {
+		return sortTasksByPosition(this.tasks.filter(t => t.parent_id === parentId), 'subtask_position');
+	}
+
+	getSubtaskProgress(parentId: string): { done: number; total: number } {
+		const subtasks = this.tasks.filter(t => t.parent_id === parentId);
+		return {
+			done: subtasks.filter(t => this.isDoneStatus(t.status, t.project_id)).length,
+			total: subtasks.length
+		};
+	}
+
+	getProjectStats(projectId: string): ProjectStats {
+		const tasks = this.tasks.filter(t => t.project_id === projectId);
+		const open = tasks.filter(t => !this.isDoneStatus(t.status, t.project_id));
+		const now = new Date().toISOString();
+		const byStatus: Record<string, number> = {};
+		tasks.forEach(task => byStatus[task.status] = (byStatus[task.status] || 0) + 1);
+
+		const upcoming = open
+			.filter((t): t is Task & { due_date: string } => !!t.due_date)
+			.sort((a, b) => compareTasks(a, b, 'due'));
+		return {
+			total: tasks.length,
+			done: tasks.length - open.length,
+			byStatus,
+			overdue: upcoming.filter(t => t.due_date < now).length,
+			nextDue: upcoming.find(t => t.due_date >= now) || null
+		};
+	}
+
+	async setTaskDone(task: Task, done: boolean) {
+		const status = done ? this.getDoneStatus(task.project_id) : this.getDefaultStatus(task.project_id);
+		if (status !== task.status) {
+			await this.updateTask(task.id, { status });
+		}
+	}
+
+	async completeParentIfDone(task: Task) {
+		if (!this.settings.autoCompleteParent || !task.parent_id) return;
+		if (!this.isDoneStatus(task.status, task.project_id)) return;
+
+		const parent = this.tasks.find(t => t.id === task.parent_id);
+		if (!parent || this.isDoneStatus(parent.status, parent.project_id)) return;
+
+		const { done, total } = this.getSubtaskProgress(parent.id);
+		if (done === total) {
+			await this.setTaskDone(parent, true);
+			new Notice(`All subtasks done: completed "${parent.title}"`);
+		}
+	}
+
+	/**
+	 * Applies a change locally and writes it to the storage backend. If the
+	 * backend is unavailable, or earlier changes are still waiting, the change
+	 * is queued in the outbox instead. Returns true if it was written.
+	 * If the backend rejects the change, it is rolled back locally and the
+	 * StorageRejectedError is rethrown.
+	 */
+	async commitChange(change: OutboxChange): Promise<boolean> {
+		const records: { id: string }[] = change.table === 'projects' ? this.projects : this.tasks;
+		const previous = records.find(r => r.id === change.recordId);
+		this.applyLocalChange(change);
+
+		if (this.storage && this.outbox.length === 0) {
+			try {
+				// The local state already reflects the change; realtime events carry any server-side fields
+				await this.executeChange(change);
+				return true;
+			} catch (error) {
+				if (error instanceof StorageRejectedError) {
+					this.rollbackLocalChange(change, previous);
+					throw error;
+				}
+				console.error('Failed to write change, queueing for retry:', error);
+			}
+		}
+
+		if (this.outbox.length === 0) {
+			new Notice('Working offline. Changes will sync when the connection is restored.');
+		}
+		this.outbox.push({
+			...change,
+			id: crypto.randomUUID(),
+			queued_at: new Date().toISOString(),
+			attempts: 0
+		});
+		await this.saveSettings();
 		this.updateStatusBar();
+		this.scheduleOutboxRetry();
+		return false;
 	}
 
-	async loadProjects() {
-		if (!this.supabase) return;
-		
+	/**
+	 * Retries queued changes after a delay that doubles while the backend keeps
+	 * failing, so the outbox drains without waiting for a reconnect.
+	 */
+	scheduleOutboxRetry() {
+		if (this.outboxRetryTimer !== null) return;
+		this.outboxRetryTimer = window.setTimeout(async () => {
+			this.outboxRetryTimer = null;
+			await this.flushOutbox(false);
+			if (this.outbox.length > 0) {
+				this.outboxRetryDelay = Math.min(this.outboxRetryDelay * 2, OUTBOX_RETRY_MAX_MS);
+				this.scheduleOutboxRetry();
+			} else {
+				this.outboxRetryDelay = OUTBOX_RETRY_MIN_MS;
+			}
+		}, this.outboxRetryDelay);
+	}
+
+	applyLocalChange(change: OutboxChange) {
+		if (change.table === 'projects') {
+			this.projects = applyOutboxChange(this.projects, change);
+		} else {
+			this.tasks = applyOutboxChange(this.tasks, change);
+		}
+
+		// A view failing to render must not stop the change from being written or queued
 		try {
-			const { data, error } = await this.supabase
-				.from('projects')
-				.select('*')
-				.order('updated_at', { ascending: false });
-			
-			if (error) throw error;
-			this.projects = data || [];
-			
-			// Update kanban view if it's open
-			if (this.kanbanView) {
-				this.kanbanView.updateBoard();
+			this.refreshViews();
+		} catch (error) {
+			console.error('Failed to refresh views:', error);
+		}
+	}
+
+	rollbackLocalChange(change: OutboxChange, previous: { id: string } | undefined) {
+		const restore = <T extends { id: string }>(records: T[]): T[] => {
+			const without = records.filter(r => r.id !== change.recordId);
+			return previous ? [previous as T, ...without] : without;
+		};
+
+		if (change.table === 'projects') {
+			this.projects = restore(this.projects);
+		} else {
+			this.tasks = restore(this.tasks);
+		}
+		this.refreshViews();
+	}
+
+	applyPendingChanges<T extends { id: string }>(table: OutboxTable, records: T[]): T[] {
+		return this.outbox
+			.filter(entry => entry.table === table)
+			.reduce((result, entry) => applyOutboxChange(result, entry), records);
+	}
+
+	async executeChange(change: OutboxChange): Promise<void> {
+		if (!this.storage) throw new Error('No storage backend configured');
+
+		if (change.table === 'projects') {
+			switch (change.action) {
+				case 'insert':
+					await this.storage.createProject(change.payload as Project);
+					break;
+				case 'update':
+					await this.storage.updateProject(change.recordId, change.payload as Partial<Project>);
+					break;
+				case 'delete':
+					await this.storage.deleteProject(change.recordId);
+					break;
+			}
+		} else {
+			switch (change.action) {
+				case 'insert':
+					await this.storage.createTask(change.payload as Task);
+					break;
+				case 'update':
+					await this.storage.updateTask(change.recordId, change.payload as Partial<Task>);
+					break;
+				case 'delete':
+					await this.storage.deleteTask(change.recordId);
+					break;
+			}
+		}
+	}
+
+	/**
+	 * Replays queued changes in order, stopping at the first one that fails.
+	 * Background retries pass notifyPending = false to avoid repeating the
+	 * "still pending" notice.
+	 */
+	async flushOutbox(notifyPending = true) {
+		if (!this.storage || this.flushingOutbox || this.outbox.length === 0) return;
+
+		this.flushingOutbox = true;
+		let synced = 0;
+		const rejected: string[] = [];
+		try {
+			while (this.outbox.length > 0) {
+				const entry = this.outbox[0];
+				try {
+					await this.executeChange(entry);
+				} catch (error) {
+					if (error instanceof StorageRejectedError) {
+						// Retrying won't help, so drop it rather than hold up everything queued behind it
+						console.error('Queued change was rejected, discarding it:', error);
+						rejected.push(`${this.describeOutboxEntry(entry)}: ${error.message}`);
+						this.outbox.shift();
+						continue;
+					}
+					console.error('Failed to replay queued change:', error);
+					entry.attempts++;
+					entry.last_error = error.message || String(error);
+					break;
+				}
+				this.outbox.shift();
+				synced++;
+			}
+		} finally {
+			this.flushingOutbox = false;
+			await this.saveSettings();
+			this.updateStatusBar();
+		}
+
+		if (rejected.length > 0) {
+			new Notice(`${rejected.length} pending change${rejected.length === 1 ? ' was' : 's were'} rejected and undone: ${rejected.join('; ')}`, 10000);
+		}
+		if (synced > 0) {
+			new Notice(`Synced ${synced} pending change${synced === 1 ? '' : 's'}`);
+		}
+		if (synced > 0 || rejected.length > 0) {
+			// Reloading drops rejected changes from the local state while keeping those still queued
+			await this.reconcile();
+		}
+		if (this.outbox.length > 0 && notifyPending) {
+			new Notice(`${this.outbox.length} change${this.outbox.length === 1 ? '' : 's'} still pending sync`);
+		}
+	}
+
+	describeOutboxEntry(entry: OutboxEntry): string {
+		const records: { id: string; name?: string; title?: string }[] = entry.table === 'projects' ? this.projects : this.tasks;
+		const record = records.find(r => r.id === entry.recordId);
+		const payload = entry.payload as { name?: string; title?: string } | undefined;
+		const label = record?.name || record?.title || payload?.name || payload?.title || entry.recordId;
+		const kind = entry.table === 'projects' ? 'project' : 'task';
+		return `${entry.action.charAt(0).toUpperCase() + entry.action.slice(1)} ${kind} "${label}"`;
+	}
+
+	async discardOutboxEntries(ids: string[]) {
+		this.outbox = this.outbox.filter(entry => !ids.includes(entry.id));
+		await this.saveSettings();
+		// Reload so the discarded local changes are rolled back
+		await this.loadProjectsAndTasks();
+	}
+
+	async activateKanbanView() {
+		await this.activateView(VIEW_TYPE_KANBAN);
+	}
+
+	async activateView(viewType: string) {
+		const { workspace } = this.app;
+
+		let leaf: WorkspaceLeaf | null = null;
+		const leaves = workspace.getLeavesOfType(viewType);
+
+		if (leaves.length > 0) {
+			// The view is already open, focus the first one
+			leaf = leaves[0];
+		} else {
+			// The view isn't open, create one in the right sidebar
+			leaf = workspace.getRightLeaf(false);
+			await leaf?.setViewState({ type: viewType, active: true });
+		}
+
+		// "Reveal" the leaf in case it is in a collapsed sidebar
+		if (leaf) {
+			workspace.revealLeaf(leaf);
+		}
+	}
+
+	openProjectKanbanSelector() {
+		new ProjectKanbanSelectorModal(this.app, this).open();
+	}
+
+	async openProjectKanban(projectId: string | null) {
+		await this.activateKanbanView();
+		if (this.kanbanView) {
+			this.kanbanView.setSelectedProject(projectId);
+		}
+	}
+
+	updateStatusBar() {
+		if (!this.statusBarItem) return;
+		const openTasks = this.tasks.filter(task => !this.isDoneStatus(task.status, task.project_id)).length;
+		const pending = this.outbox.length > 0 ? ` · ${this.outbox.length} pending sync` : '';
+		this.statusBarItem.setText(`Open tasks: ${openTasks}${pending}`);
+	}
+
+	getWorkflow(projectId?: string | null): Workflow {
+		const { workflows, defaultWorkflowId, projectWorkflows } = this.settings;
+		const workflowId = (projectId && projectWorkflows[projectId]) || defaultWorkflowId;
+		return workflows.find(w => w.id === workflowId)
+			|| workflows.find(w => w.id === defaultWorkflowId)
+			|| workflows[0]
+			|| DEFAULT_WORKFLOW;
+	}
+
+	getStatusColumn(status: string, projectId?: string | null): WorkflowColumn | undefined {
+		const column = this.getWorkflow(projectId).columns.find(c => c.id === status);
+		if (column) return column;
+		// Fall back to any workflow that knows the status
+		for (const workflow of this.settings.workflows) {
+			const match = workflow.columns.find(c => c.id === status);
+			if (match) return match;
+		}
+		return undefined;
+	}
+
+	getStatusName(status: string, projectId?: string | null): string {
+		return this.getStatusColumn(status, projectId)?.name || status;
+	}
+
+	isDoneStatus(status: string, projectId?: string | null): boolean {
+		return this.getStatusColumn(status, projectId)?.isDone || false;
+	}
+
+	getDefaultStatus(projectId?: string | null): string {
+		return this.getWorkflow(projectId).columns[0]?.id || 'todo';
+	}
+
+	getDoneStatus(projectId?: string | null): string {
+		return this.getWorkflow(projectId).columns.find(c => c.isDone)?.id || 'done';
+	}
+
+	/**
+	 * Columns shown on the board. A single project uses its own workflow; "All
+	 * Projects" merges every workflow in use, starting with the default one.
+	 * Statuses that no workflow knows get a column of their own so their tasks
+	 * stay visible.
+	 */
+	getBoardColumns(projectId: string | null, tasks: Task[]): WorkflowColumn[] {
+		const columns: WorkflowColumn[] = [];
+		const addColumns = (workflow: Workflow) => {
+			workflow.columns.forEach(column => {
+				if (!columns.some(c => c.id === column.id)) columns.push(column);
+			});
+		};
+
+		if (projectId) {
+			addColumns(this.getWorkflow(projectId));
+		} else {
+			addColumns(this.getWorkflow(null));
+			tasks.forEach(task => addColumns(this.getWorkflow(task.project_id)));
+		}
+
+		tasks.forEach(task => {
+			if (!columns.some(c => c.id === task.status)) {
+				columns.push({ id: task.status, name: task.status, color: '', isDone: false });
+			}
+		});
+		return columns;
+	}
+
+	getDefaultExportPath(projectId: string | null, format: ExportFormat): string {
+		const project = this.projects.find(p => p.id === projectId);
+		const name = project ? sanitizeFileName(project.name) || 'project' : 'project-manager';
+		return normalizePath(`${this.settings.defaultProjectPath}/Exports/${name}-${toLocalDateString(new Date())}.${format}`);
+	}
+
+	// Writes all projects and tasks, or one project and its tasks, to a vault file
+	async exportData(projectId: string | null, format: ExportFormat, path: string): Promise<{ projects: number; tasks: number }> {
+		const data: ExportData = {
+			version: EXPORT_VERSION,
+			exported_at: new Date().toISOString(),
+			projects: (projectId ? this.projects.filter(p => p.id === projectId) : this.projects).map(p => pickFields(p, PROJECT_FIELDS) as Project),
+			tasks: (projectId ? this.tasks.filter(t => t.project_id === projectId) : this.tasks).map(t => pickFields(t, TASK_FIELDS) as Task)
+		};
+		await this.writeVaultFile(path, format === 'json' ? JSON.stringify(data, null, 2) : formatCsv(data));
+		return { projects: data.projects.length, tasks: data.tasks.length };
+	}
+
+	// Creates the file (and its folder) or overwrites it
+	async writeVaultFile(path: string, content: string): Promise<TFile> {
+		const filePath = normalizePath(path);
+		const folder = filePath.includes('/') ? filePath.substring(0, filePath.lastIndexOf('/')) : '';
+		if (folder) await this.ensureDirectoryExists(folder);
+		const existing = this.app.vault.getAbstractFileByPath(filePath);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+			return existing;
+		}
+		return await this.app.vault.create(filePath, content);
+	}
+
+	isKanbanBoardFile(file: TFile): boolean {
+		return file.extension === 'md' && !!this.app.metadataCache.getFileCache(file)?.frontmatter?.[KANBAN_BOARD_KEY];
+	}
+
+	/**
+	 * Writes a project's board as a markdown Kanban note: one lane per workflow
+	 * column, in board order. Tasks in a status the workflow doesn't have go
+	 * into the first lane.
+	 */
+	async exportKanbanBoard(projectId: string, path?: string): Promise<TFile> {
+		const project = this.projects.find(p => p.id === projectId);
+		if (!project) throw new Error('Project not found');
+
+		const columns = this.getWorkflow(projectId).columns;
+		const tasks = this.tasks.filter(t => t.project_id === projectId);
+		const lanes = columns.map((column, index) => ({
+			column,
+			tasks: sortTasksByPosition(tasks.filter(t => t.status === column.id
+				|| (index === 0 && !columns.some(c => c.id === t.status))))
+		}));
+		const filePath = path || `${this.settings.defaultProjectPath}/Boards/${sanitizeFileName(project.name) || 'project'} Board.md`;
+		return await this.writeVaultFile(filePath, formatKanbanBoard(lanes));
+	}
+
+	/**
+	 * Dry run of importing a markdown Kanban board into a project. Lanes map
+	 * to workflow columns by name or id; cards in unknown lanes go to the first
+	 * column, or the done column if the lane or card is complete. Cards match
+	 * existing tasks like any other import, by exported id or by title.
+	 */
+	async planKanbanBoardImport(file: TFile, projectId: string): Promise<ImportPlan> {
+		const lanes = parseKanbanBoard(await this.app.vault.read(file));
+		if (lanes.length === 0) {
+			throw new Error('No lanes found; lanes are "## " headings');
+		}
+
+		const columns = this.getWorkflow(projectId).columns;
+		const warnings: string[] = [];
+		const tasks: Partial<Task>[] = [];
+
+		lanes.forEach(lane => {
+			const heading = lane.heading.toLowerCase();
+			const column = columns.find(c => c.name.toLowerCase() === heading || c.id === heading);
+			const laneStatus = column ? column.id : lane.complete ? this.getDoneStatus(projectId) : this.getDefaultStatus(projectId);
+			if (!column && lane.cards.length > 0) {
+				const target = columns.find(c => c.id === laneStatus);
+				warnings.push(`Lane "${lane.heading}" has no matching column; its cards go to "${target?.name || laneStatus}"`);
 			}
+
+			lane.cards.forEach(card => {
+				const status = card.checked && !this.isDoneStatus(laneStatus, projectId) ? this.getDoneStatus(projectId) : laneStatus;
+				// A marker only identifies the card within this project; a board copied from
+				// another project must not pull that project's tasks over
+				const marked = card.id ? this.tasks.find(t => t.id === card.id) : undefined;
+				const id = marked && marked.project_id !== projectId ? undefined : card.id;
+				if (id !== card.id) {
+					warnings.push(`Card "${card.title}" belongs to a task in another project; it is imported as a card of this project instead`);
+				}
+				tasks.push({
+					id,
+					title: card.title,
+					status,
+					priority: card.priority,
+					due_date: card.due_date,
+					project_id: projectId
+				});
+			});
+		});
+
+		const plan = planImport({ projects: [], tasks }, this.projects, this.tasks, id => this.getWorkflow(id));
+		plan.warnings.unshift(...warnings);
+		return plan;
+	}
+
+	async exportKanbanBoardWithNotice(project: Project) {
+		try {
+			const file = await this.exportKanbanBoard(project.id);
+			new Notice(`Exported "${project.name}" board to ${file.path}`);
 		} catch (error) {
-			console.error('Failed to load projects:', error);
-			new Notice('Failed to load projects');
+			console.error('Failed to export Kanban board:', error);
+			new Notice(`Could not export "${project.name}" board: ${error.message}`);
+		}
+	}
+
+	// Dry run of importing a JSON or CSV export; nothing is changed until applyImport
+	async planImportFile(file: TFile): Promise<ImportPlan> {
+		const data = parseExportFile(await this.app.vault.read(file), file.extension === 'csv' ? 'csv' : 'json');
+		return planImport(data, this.projects, this.tasks, projectId => this.getWorkflow(projectId));
+	}
+
+	async applyImport(plan: ImportPlan): Promise<{ created: number; updated: number; failed: string[] }> {
+		const result = { created: 0, updated: 0, failed: [] as string[] };
+
+		for (const { action, record, changes } of plan.projects) {
+			try {
+				if (action === 'create') {
+					await this.createProject(record);
+					result.created++;
+				} else if (action === 'update') {
+					await this.updateProject(record.id, changes);
+					result.updated++;
+				}
+			} catch (error) {
+				result.failed.push(`Project "${record.name}": ${error.message}`);
+			}
+		}
+
+		// Create parents before their subtasks
+		const toCreate = plan.tasks.filter(t => t.action === 'create').map(t => t.record);
+		const created = new Set<string>();
+		while (toCreate.length > 0) {
+			const index = toCreate.findIndex(task => !task.parent_id || created.has(task.parent_id) || !toCreate.some(t => t.id === task.parent_id));
+			const [task] = toCreate.splice(Math.max(index, 0), 1);
+			try {
+				await this.createTask(task);
+				created.add(task.id);
+				result.created++;
+			} catch (error) {
+				result.failed.push(`Task "${task.title}": ${error.message}`);
+			}
+		}
+
+		for (const { record, changes } of plan.tasks.filter(t => t.action === 'update')) {
+			try {
+				// Written as-is rather than through updateTask, so restoring a done
+				// recurring task doesn't schedule another occurrence
+				await this.commitChange({ table: 'tasks', action: 'update', recordId: record.id, payload: { ...changes, updated_at: new Date().toISOString() } });
+				result.updated++;
+			} catch (error) {
+				result.failed.push(`Task "${record.title}": ${error.message}`);
+			}
 		}
+		return result;
 	}
 
-	async loadTasks() {
-		if (!this.supabase) return;
-		
+	async syncGitHub() {
+		if (this.syncingGitHub) return;
+		this.syncingGitHub = true;
+		const notice = new Notice('Syncing GitHub issues…', 0);
 		try {
-			const { data, error } = await this.supabase
-				.from('tasks')
-				.select('*')
-				.order('updated_at', { ascending: false });
-			
-			if (error) throw error;
-			this.tasks = data || [];
-			
-			// Update kanban view if it's open
-			if (this.kanbanView) {
-				this.kanbanView.updateBoard();
+			const service = new GitHubSyncService(this, this.httpClient, this.settings.githubApiUrl, this.settings.githubToken);
+			const { imported, updated, completed, errors } = await service.syncAll();
+			notice.hide();
+			const summary = `GitHub sync: ${imported} imported, ${updated} updated, ${completed} completed`;
+			if (errors.length > 0) {
+				console.error('GitHub sync errors:', errors);
+				new Notice(`${summary}. ${errors.length} failed: ${errors.join('; ')}`, 10000);
+			} else {
+				new Notice(summary);
 			}
 		} catch (error) {
-			console.error('Failed to load tasks:', error);
-			new Notice('Failed to load tasks');
+			notice.hide();
+			console.error('GitHub sync failed:', error);
+			new Notice(`GitHub sync failed: ${error.message}`);
+		} finally {
+			this.syncingGitHub = false;
 		}
 	}
 
-	async activateKanbanView() {
-		const { workspace } = this.app;
+	// Adds a note to a task's or project's links; false if it was already linked
+	async linkNote(table: OutboxTable, id: string, path: string, role?: string): Promise<boolean> {
+		const record = table === 'projects' ? this.projects.find(p => p.id === id) : this.tasks.find(t => t.id === id);
+		const updates = record ? addNoteLink(record, path, role) : null;
+		if (!updates) return false;
+		if (table === 'projects') {
+			await this.updateProject(id, updates);
+		} else {
+			await this.updateTask(id, updates);
+		}
+		return true;
+	}
 
-		let leaf: WorkspaceLeaf | null = null;
-		const leaves = workspace.getLeavesOfType(VIEW_TYPE_KANBAN);
+	async unlinkNote(table: OutboxTable, id: string, path: string): Promise<void> {
+		const record = table === 'projects' ? this.projects.find(p => p.id === id) : this.tasks.find(t => t.id === id);
+		if (!record) return;
+		if (table === 'projects') {
+			await this.updateProject(id, removeNoteLink(record, path));
+		} else {
+			await this.updateTask(id, removeNoteLink(record, path));
+		}
+	}
 
-		if (leaves.length > 0) {
-			// A kanban view is already open, focus the first one
-			leaf = leaves[0];
+	openNote(path: string) {
+		if (this.isNoteMissing(path)) {
+			new Notice(`"${path}" no longer exists. Run "Repair Broken Note Links" to look for it.`);
 		} else {
-			// No kanban view is open, create one in the right sidebar
-			leaf = workspace.getRightLeaf(false);
-			await leaf?.setViewState({ type: VIEW_TYPE_KANBAN, active: true });
+			this.app.workspace.openLinkText(path, '');
 		}
+	}
 
-		// "Reveal" the leaf in case it is in a collapsed sidebar
-		if (leaf) {
-			workspace.revealLeaf(leaf);
+	// Whether a stored note path (a vault path or link text) refers to this file
+	isLinkedTo(path: string | null | undefined, file: TFile): boolean {
+		if (!path) return false;
+		return normalizePath(path) === file.path || this.app.metadataCache.getFirstLinkpathDest(path, '') === file;
+	}
+
+	/**
+	 * Projects and tasks linked to a note, and tasks that
+	 * were imported from it or mention it with a [[wikilink]] in their description.
+	 */
+	getNoteLinks(file: TFile): { projects: Project[]; tasks: Task[]; mentions: Task[] } {
+		const linkPattern = new RegExp(`\\[\\[(${[file.basename, file.path, file.path.replace(/\.md$/, '')]
+			.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(\\]\\]|[|#])`);
+		const linked = (record: NoteLinkFields) => getLinkedNotes(record).some(link => this.isLinkedTo(link.path, file));
+		const tasks = this.tasks.filter(linked);
+		return {
+			projects: this.projects.filter(linked),
+			tasks,
+			mentions: this.tasks.filter(t => !tasks.includes(t)
+				&& (t.source_file === file.path || (!!t.description && linkPattern.test(t.description))))
+		};
+	}
+
+	// True when a linked note path no longer resolves to a file
+	isNoteMissing(path?: string | null): boolean {
+		if (!path) return false;
+		return !(this.app.vault.getAbstractFileByPath(normalizePath(path)) instanceof TFile)
+			&& !this.app.metadataCache.getFirstLinkpathDest(path, '');
+	}
+
+	async handleFileRenamed(file: TAbstractFile, oldPath: string) {
+		// A renamed folder moves every note inside it
+		const renamed = (path?: string | null): string | null => {
+			if (!path) return null;
+			if (path === oldPath) return file.path;
+			if (file instanceof TFolder && path.startsWith(`${oldPath}/`)) return file.path + path.slice(oldPath.length);
+			return null;
+		};
+
+		const renamedLinks = (record: NoteLinkFields): NoteLinkFields | null => {
+			const links = getLinkedNotes(record);
+			if (!links.some(link => renamed(link.path))) return null;
+			return {
+				markdown_file: renamed(record.markdown_file) || record.markdown_file,
+				linked_notes: links.map(link => ({ ...link, path: renamed(link.path) || link.path }))
+			};
+		};
+
+		try {
+			for (const project of this.projects) {
+				const updates = renamedLinks(project);
+				if (updates) await this.updateProject(project.id, updates);
+			}
+			for (const task of this.tasks.filter(t => renamedLinks(t) || renamed(t.source_file))) {
+				const updates: Partial<Task> = { ...renamedLinks(task) };
+				const sourcePath = renamed(task.source_file);
+				if (sourcePath) updates.source_file = sourcePath;
+				await this.updateTask(task.id, updates);
+			}
+		} catch (error) {
+			console.error('Failed to update note links after rename:', error);
+			new Notice(`Could not update links to "${file.path}": ${error.message}`);
 		}
 	}
 
-	openProjectKanbanSelector() {
-		new ProjectKanbanSelectorModal(this.app, this).open();
+	handleFileDeleted(file: TAbstractFile) {
+		const affected = (record: NoteLinkFields) => getLinkedNotes(record)
+			.some(link => link.path === file.path || link.path.startsWith(`${file.path}/`));
+		const projects = this.projects.filter(affected);
+		const tasks = this.tasks.filter(affected);
+		if (projects.length === 0 && tasks.length === 0) return;
+
+		// The links are kept so "Repair Broken Note Links" can find the note again if it comes back
+		const names = [...projects.map(p => p.name), ...tasks.map(t => t.title)];
+		new Notice(`"${file.name}" was linked to ${names.length === 1 ? `"${names[0]}"` : `${names.length} projects and tasks`}. The link is now broken.`);
+		this.refreshViews();
 	}
 
-	updateStatusBar() {
-		if (!this.statusBarItem) return;
-		const activeTasks = this.tasks.filter(task => task.status === 'in-progress').length;
-		this.statusBarItem.setText(`Active tasks: ${activeTasks}`);
+	/**
+	 * Points broken note links at a note with the same file name elsewhere in
+	 * the vault. Links with no match, or more than one, are left alone.
+	 */
+	async repairNoteLinks() {
+		const notes = this.app.vault.getMarkdownFiles();
+		const findByName = (path: string): TFile[] => {
+			const name = (path.split('/').pop() || path).replace(/\.md$/, '');
+			return notes.filter(note => note.basename === name);
+		};
+
+		let repaired = 0;
+		const unresolved: string[] = [];
+		// Works out the repaired links of one record, or null if none of its notes could be found
+		const repair = (label: string, record: NoteLinkFields): NoteLinkFields | null => {
+			const moved: Record<string, string> = {};
+			getLinkedNotes(record).filter(link => this.isNoteMissing(link.path)).forEach(link => {
+				const matches = findByName(link.path);
+				if (matches.length === 1) {
+					moved[link.path] = matches[0].path;
+					repaired++;
+				} else {
+					unresolved.push(matches.length > 1 ? `${label} (${matches.length} notes named "${matches[0].basename}")` : label);
+				}
+			});
+			if (Object.keys(moved).length === 0) return null;
+			return {
+				markdown_file: record.markdown_file && moved[record.markdown_file] || record.markdown_file,
+				linked_notes: getLinkedNotes(record).map(link => ({ ...link, path: moved[link.path] || link.path }))
+			};
+		};
+		const hasMissingNote = (record: NoteLinkFields) => getLinkedNotes(record).some(link => this.isNoteMissing(link.path));
+
+		try {
+			for (const project of this.projects.filter(hasMissingNote)) {
+				const updates = repair(project.name, project);
+				if (updates) await this.updateProject(project.id, updates);
+			}
+			for (const task of this.tasks.filter(hasMissingNote)) {
+				const updates = repair(task.title, task);
+				if (updates) await this.updateTask(task.id, updates);
+			}
+		} catch (error) {
+			console.error('Failed to repair note links:', error);
+			new Notice(`Could not repair note links: ${error.message}`);
+			return;
+		}
+
+		if (repaired === 0 && unresolved.length === 0) {
+			new Notice('All note links are intact');
+			return;
+		}
+		const message = `Repaired ${repaired} note ${repaired === 1 ? 'link' : 'links'}`;
+		new Notice(unresolved.length > 0 ? `${message}. Still broken: ${unresolved.join(', ')}` : message, unresolved.length > 0 ? 10000 : undefined);
 	}
 
 	async ensureDirectoryExists(dirPath: string): Promise<void> {
@@ -377,62 +3881,360 @@ export default class ProjectManagerPlugin extends Plugin {
 		}
 	}
 
+	getTaskTemplateValues(task: Task): Record<string, string> {
+		const project = this.projects.find(p => p.id === task.project_id);
+		return {
+			id: task.id,
+			title: task.title,
+			description: task.description || '',
+			status: this.getStatusName(task.status, task.project_id),
+			priority: task.priority,
+			due: formatTemplateDate(task.due_date),
+			start: formatTemplateDate(task.start_date),
+			project: project ? project.name : 'Unassigned',
+			github_repo: task.github_repo || '',
+			created: formatTemplateDate(task.created_at),
+			date: toLocalDateString(new Date())
+		};
+	}
+
+	getProjectTemplateValues(project: Project): Record<string, string> {
+		return {
+			id: project.id,
+			name: project.name,
+			description: project.description || '',
+			status: project.status,
+			start: formatTemplateDate(project.start_date),
+			target: formatTemplateDate(project.target_date),
+			github_repo: project.github_repo || '',
+			created: formatTemplateDate(project.created_at),
+			date: toLocalDateString(new Date())
+		};
+	}
+
+	/**
+	 * Creates a note from a path pattern and template file, filling in the
+	 * placeholders. An existing file is never overwritten; the new note gets a
+	 * numbered name instead. Returns the path of the created note.
+	 */
+	async createTemplatedNote(pathPattern: string, templatePath: string, values: Record<string, string>, fallback: string): Promise<string> {
+		const safeValues: Record<string, string> = {};
+		Object.keys(values).forEach(key => safeValues[key] = sanitizeFileName(values[key]));
+		const relativePath = renderTemplate(pathPattern, safeValues)
+			.split('/')
+			.map(segment => segment.trim())
+			.filter(segment => segment)
+			.join('/') || safeValues.title || safeValues.name || 'Untitled';
+		const basePath = normalizePath(`${this.settings.defaultProjectPath}/${relativePath}`);
+
+		let content = fallback;
+		if (templatePath.trim()) {
+			const template = this.app.vault.getAbstractFileByPath(normalizePath(templatePath.trim()));
+			if (template instanceof TFile) {
+				content = await this.app.vault.read(template);
+			} else {
+				new Notice(`Template "${templatePath}" not found, using a plain heading`);
+			}
+		}
+
+		const folder = basePath.includes('/') ? basePath.slice(0, basePath.lastIndexOf('/')) : '';
+		if (folder) {
+			await this.ensureDirectoryExists(folder);
+		}
+
+		let filePath = `${basePath}.md`;
+		for (let i = 1; this.app.vault.getAbstractFileByPath(filePath); i++) {
+			filePath = `${basePath} ${i}.md`;
+		}
+
+		await this.app.vault.create(filePath, renderTemplate(content, values));
+		return filePath;
+	}
+
 	async createNoteFromTask(task: Task): Promise<void> {
 		try {
-			// Generate safe filename from task title
-			const fileName = task.title.replace(/[<>:"/\\|?*]/g, '').trim();
-			
-			// Get project name if task is associated with a project
-			const project = this.projects.find(p => p.id === task.project_id);
-			const projectName = project ? project.name.replace(/[<>:"/\\|?*]/g, '').trim() : 'Unassigned';
-			
-			// Create directory structure: Projects/Management/<project-name>/
-			const projectDir = `${this.settings.defaultProjectPath}/Management/${projectName}`;
-			const filePath = `${projectDir}/${fileName}.md`;
+			const filePath = await this.createTemplatedNote(
+				this.settings.taskNotePath,
+				this.settings.taskNoteTemplate,
+				this.getTaskTemplateValues(task),
+				'# {{title}}\n'
+			);
 			
-			// Create directories if they don't exist
-			await this.ensureDirectoryExists(projectDir);
-			
-			// Create note content with just the title
-			const noteContent = `# ${task.title}
-`;
-
-			// Create the file
-			const file = await this.app.vault.create(filePath, noteContent);
-			
-			// Link the note to the task in Supabase
-			if (this.supabase) {
-				const { error } = await this.supabase
-					.from('tasks')
-					.update({ markdown_file: filePath })
-					.eq('id', task.id);
-				
-				if (error) throw error;
-				
-				// Refresh tasks to update UI
-				await this.loadTasks();
-			}
+			// Link the note to the task in the storage backend
+			await this.linkNote('tasks', task.id, filePath);
 			
 			// Open the created note
 			await this.app.workspace.openLinkText(filePath, '');
 			
-			new Notice(`Created note: ${projectName}/${fileName}.md`);
+			new Notice(`Created note: ${filePath}`);
 		} catch (error) {
 			console.error('Failed to create note from task:', error);
 			new Notice('Failed to create note. Check console for details.');
 		}
 	}
 
+	async createNoteFromProject(project: Project): Promise<void> {
+		try {
+			const filePath = await this.createTemplatedNote(
+				this.settings.projectNotePath,
+				this.settings.projectNoteTemplate,
+				this.getProjectTemplateValues(project),
+				'# {{name}}\n\n{{description}}\n'
+			);
+
+			await this.linkNote('projects', project.id, filePath);
+			await this.app.workspace.openLinkText(filePath, '');
+
+			new Notice(`Created note: ${filePath}`);
+		} catch (error) {
+			console.error('Failed to create note from project:', error);
+			new Notice('Failed to create note. Check console for details.');
+		}
+	}
+
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const data = Object.assign({}, await this.loadData());
+		this.outbox = data.outbox || [];
+		this.noteFrontmatter = data.noteFrontmatter || {};
+		delete data.outbox;
+		delete data.noteFrontmatter;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Deep-copy so editing workflows never mutates DEFAULT_WORKFLOW
+		this.settings.workflows = JSON.parse(JSON.stringify(this.settings.workflows));
+		this.settings.projectWorkflows = { ...this.settings.projectWorkflows };
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
+		// The outbox is persisted alongside the settings so queued changes survive restarts
+		await this.saveData({ ...this.settings, outbox: this.outbox, noteFrontmatter: this.noteFrontmatter });
+	}
+}
+
+/**
+ * Lists the notes linked to a task or project with open and remove buttons,
+ * plus a row to link another note. Changes are saved immediately.
+ */
+function renderLinkedNotes(container: HTMLElement, plugin: ProjectManagerPlugin, table: OutboxTable, id: string) {
+	container.empty();
+	const record = table === 'projects' ? plugin.projects.find(p => p.id === id) : plugin.tasks.find(t => t.id === id);
+	if (!record) return;
+
+	const list = container.createDiv('linked-notes-list');
+	const notes = getLinkedNotes(record);
+	if (notes.length === 0) {
+		list.createDiv({text: 'No linked notes', cls: 'linked-notes-empty'});
+	}
+	notes.forEach(note => {
+		const row = list.createDiv('linked-note-item');
+		if (note.role) row.createSpan({text: note.role, cls: 'linked-note-role'});
+		const missing = plugin.isNoteMissing(note.path);
+		const pathEl = row.createSpan({text: note.path, cls: `linked-note-path ${missing ? 'is-missing' : ''}`});
+		pathEl.onclick = () => plugin.openNote(note.path);
+		if (note.path === record.markdown_file) row.createSpan({text: 'main', cls: 'linked-note-main'});
+
+		const removeBtn = row.createEl('button', {text: '×', cls: 'linked-note-remove', attr: {title: 'Remove link'}});
+		removeBtn.onclick = async () => {
+			try {
+				await plugin.unlinkNote(table, id, note.path);
+			} catch (error) {
+				console.error('Failed to remove note link:', error);
+				new Notice(`Could not remove the link: ${error.message}`);
+			}
+			renderLinkedNotes(container, plugin, table, id);
+		};
+	});
+
+	const addRow = container.createDiv('linked-note-add');
+	const pathInput = addRow.createEl('input', {type: 'text', placeholder: 'Note path or name'});
+	const roleInput = addRow.createEl('input', {type: 'text', placeholder: 'Role (optional)'});
+	const addBtn = addRow.createEl('button', {text: 'Link'});
+	addBtn.onclick = async () => {
+		const value = pathInput.value.trim();
+		if (!value) return;
+		const file = plugin.app.metadataCache.getFirstLinkpathDest(value, '');
+		if (!file) {
+			new Notice(`No note found for "${value}"`);
+			return;
+		}
+		try {
+			if (!(await plugin.linkNote(table, id, file.path, roleInput.value.trim() || undefined))) {
+				new Notice(`"${file.path}" is already linked`);
+			}
+		} catch (error) {
+			console.error('Failed to link note:', error);
+			new Notice(`Could not link the note: ${error.message}`);
+		}
+		renderLinkedNotes(container, plugin, table, id);
+	};
+}
+
+/**
+ * Renders the repeat controls for a task into `container` and returns a
+ * function that reads the chosen rule (null for "does not repeat").
+ */
+function createRecurrenceInput(container: HTMLElement, rule?: RecurrenceRule | null): () => RecurrenceRule | null {
+	const presets: Record<string, Pick<RecurrenceRule, 'unit' | 'interval'>> = {
+		daily: { unit: 'day', interval: 1 },
+		weekly: { unit: 'week', interval: 1 },
+		monthly: { unit: 'month', interval: 1 }
+	};
+	const presetFor = (r: RecurrenceRule) =>
+		Object.keys(presets).find(key => presets[key].unit === r.unit && presets[key].interval === r.interval) || 'custom';
+
+	const frequencySelect = container.createEl('select');
+	frequencySelect.addClass('task-select');
+	[['', 'Does not repeat'], ['daily', 'Daily'], ['weekly', 'Weekly'], ['monthly', 'Monthly'], ['custom', 'Custom…']].forEach(([value, text]) => {
+		frequencySelect.createEl('option', {value, text});
+	});
+
+	const customDiv = container.createDiv('recurrence-custom');
+	customDiv.createEl('span', {text: 'Every'});
+	const intervalInput = customDiv.createEl('input', {type: 'number', attr: {min: '1'}});
+	intervalInput.addClass('task-input');
+	const unitSelect = customDiv.createEl('select');
+	unitSelect.addClass('task-select');
+	[['day', 'days'], ['week', 'weeks'], ['month', 'months']].forEach(([value, text]) => {
+		unitSelect.createEl('option', {value, text});
+	});
+
+	const basisSelect = container.createEl('select');
+	basisSelect.addClass('task-select');
+	basisSelect.createEl('option', {value: 'due_date', text: 'Next due date counts from the due date'});
+	basisSelect.createEl('option', {value: 'completion', text: 'Next due date counts from completion'});
+
+	frequencySelect.value = rule ? presetFor(rule) : '';
+	intervalInput.value = String(rule?.interval || 1);
+	unitSelect.value = rule?.unit || 'week';
+	basisSelect.value = rule?.basis || 'due_date';
+
+	const updateVisibility = () => {
+		customDiv.toggle(frequencySelect.value === 'custom');
+		basisSelect.toggle(frequencySelect.value !== '');
+	};
+	frequencySelect.onchange = updateVisibility;
+	updateVisibility();
+
+	return () => {
+		const frequency = frequencySelect.value;
+		if (!frequency) return null;
+		const basis = basisSelect.value as RecurrenceRule['basis'];
+		if (frequency === 'custom') {
+			return {
+				unit: unitSelect.value as RecurrenceRule['unit'],
+				interval: Math.max(1, parseInt(intervalInput.value) || 1),
+				basis
+			};
+		}
+		return { ...presets[frequency], basis };
+	};
+}
+
+// Turns a name into an id that is not in `taken`, e.g. "In Review" -> "in-review-2"
+function uniqueSlug(name: string, taken: string[]): string {
+	const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'item';
+	let slug = base;
+	for (let i = 2; taken.includes(slug); i++) {
+		slug = `${base}-${i}`;
+	}
+	return slug;
+}
+
+/**
+ * Fills a status <select> with the columns of a workflow. A selected status
+ * that the workflow doesn't know is kept as an extra option so it isn't lost.
+ */
+function populateStatusSelect(select: HTMLSelectElement, workflow: Workflow, selected: string) {
+	select.empty();
+	workflow.columns.forEach(column => {
+		select.createEl('option', {value: column.id, text: column.name});
+	});
+	if (selected && !workflow.columns.some(c => c.id === selected)) {
+		select.createEl('option', {value: selected, text: selected});
+	}
+	select.value = selected || workflow.columns[0]?.id || '';
+}
+
+class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	constructor(app: App, private onChoose: (folder: TFolder) => void) {
+		super(app);
+		this.setPlaceholder('Choose a folder to import checkboxes from');
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllLoadedFiles().filter((file): file is TFolder => file instanceof TFolder);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? '/' : folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		this.onChoose(folder);
+	}
+}
+
+class ProjectSuggestModal extends FuzzySuggestModal<Project> {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private onChoose: (project: Project) => void) {
+		super(app);
+		this.setPlaceholder('Choose a project');
+	}
+
+	getItems(): Project[] {
+		// Archived projects are always listed here so they can be restored
+		return this.plugin.projects;
+	}
+
+	getItemText(project: Project): string {
+		return project.status === 'archived' ? `${project.name} (archived)` : project.name;
+	}
+
+	onChooseItem(project: Project): void {
+		this.onChoose(project);
+	}
+}
+
+// JSON and CSV files in the vault, other than the vault store itself
+class ExportFileSuggestModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private onChoose: (file: TFile) => void) {
+		super(app);
+		this.setPlaceholder('Choose a JSON or CSV export to import');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter(file =>
+			(file.extension === 'json' || file.extension === 'csv') && file.path !== normalizePath(this.plugin.settings.vaultStorePath));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
+
+// Notes in the markdown Kanban board format
+class KanbanBoardFileSuggestModal extends FuzzySuggestModal<TFile> {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private onChoose: (file: TFile) => void) {
+		super(app);
+		this.setPlaceholder('Choose a Kanban board to import');
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getMarkdownFiles().filter(file => this.plugin.isKanbanBoardFile(file));
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
 	}
 }
 
-class ProjectManagerModal extends Modal {
+class ProjectKanbanSelectorModal extends Modal {
 	constructor(app: App, private plugin: ProjectManagerPlugin) {
 		super(app);
 	}
@@ -440,30 +4242,38 @@ class ProjectManagerModal extends Modal {
 	onOpen() {
 		const {contentEl} = this;
 		contentEl.empty();
-		contentEl.createEl('h2', {text: 'Project Manager'});
+		contentEl.createEl('h2', {text: 'Select Project for Kanban Board'});
 
-		// Projects section
-		const projectsDiv = contentEl.createDiv('projects-section');
-		projectsDiv.createEl('h3', {text: 'Projects'});
+		const form = contentEl.createDiv('project-selector-form');
 		
-		const projectsList = projectsDiv.createDiv('projects-list');
-		this.plugin.projects.forEach(project => {
-			const projectEl = projectsList.createDiv('project-item');
+		const projectsList = form.createDiv('projects-list');
+		
+		// Add "All Projects" option
+		const allProjectsEl = projectsList.createDiv('project-selector-item');
+		allProjectsEl.createEl('span', {text: 'All Projects', cls: 'project-name'});
+		allProjectsEl.onclick = async () => {
+			await this.plugin.openProjectKanban(null);
+			this.close();
+		};
+
+		// Add individual projects
+		this.plugin.getSelectableProjects().forEach(project => {
+			const projectEl = projectsList.createDiv('project-selector-item');
 			projectEl.createEl('span', {text: project.name, cls: 'project-name'});
 			projectEl.createEl('span', {text: project.status, cls: `status-${project.status}`});
+			if (project.description) {
+				projectEl.createEl('p', {text: project.description, cls: 'project-description'});
+			}
+			
+			projectEl.onclick = async () => {
+				await this.plugin.openProjectKanban(project.id);
+				this.close();
+			};
 		});
 
-		// Tasks section
-		const tasksDiv = contentEl.createDiv('tasks-section');
-		tasksDiv.createEl('h3', {text: 'Recent Tasks'});
-		
-		const tasksList = tasksDiv.createDiv('tasks-list');
-		this.plugin.tasks.slice(0, 10).forEach(task => {
-			const taskEl = tasksList.createDiv('task-item');
-			taskEl.createEl('span', {text: task.title, cls: 'task-title'});
-			taskEl.createEl('span', {text: task.status, cls: `status-${task.status}`});
-			taskEl.createEl('span', {text: task.priority, cls: `priority-${task.priority}`});
-		});
+		const buttonDiv = form.createDiv('button-group');
+		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
+		cancelBtn.onclick = () => this.close();
 	}
 
 	onClose() {
@@ -472,7 +4282,7 @@ class ProjectManagerModal extends Modal {
 	}
 }
 
-class ProjectKanbanSelectorModal extends Modal {
+class CreateProjectModal extends Modal {
 	constructor(app: App, private plugin: ProjectManagerPlugin) {
 		super(app);
 	}
@@ -480,103 +4290,224 @@ class ProjectKanbanSelectorModal extends Modal {
 	onOpen() {
 		const {contentEl} = this;
 		contentEl.empty();
-		contentEl.createEl('h2', {text: 'Select Project for Kanban Board'});
+		contentEl.createEl('h2', {text: 'Create New Project'});
+
+		const form = contentEl.createDiv('project-form');
+		
+		const nameInput = form.createEl('input', {type: 'text', placeholder: 'Project name'});
+		const descInput = form.createEl('textarea', {placeholder: 'Project description (optional)'});
+
+		form.createEl('label', {text: 'Start Date', cls: 'form-label'});
+		const startDateInput = form.createEl('input', {type: 'date'});
+		form.createEl('label', {text: 'Target Date', cls: 'form-label'});
+		const targetDateInput = form.createEl('input', {type: 'date'});
+		
+		const buttonDiv = form.createDiv('button-group');
+		const createBtn = buttonDiv.createEl('button', {text: 'Create Project'});
+		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
+
+		createBtn.onclick = async () => {
+			if (nameInput.value.trim()) {
+				const startDate = parseLocalDate(startDateInput.value);
+				const targetDate = parseLocalDate(targetDateInput.value);
+				await this.createProject(nameInput.value.trim(), descInput.value.trim(), {
+					start_date: startDate ? startDate.toISOString() : undefined,
+					target_date: targetDate ? targetDate.toISOString() : undefined
+				});
+				this.close();
+			}
+		};
+
+		cancelBtn.onclick = () => this.close();
+	}
+
+	async createProject(name: string, description: string, dates: Pick<Project, 'start_date' | 'target_date'>) {
+		try {
+			await this.plugin.createProject({ name, description: description || undefined, ...dates });
+			new Notice(`Project "${name}" created successfully`);
+		} catch (error) {
+			console.error('Failed to create project:', error);
+			new Notice('Failed to create project');
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class ProjectDetailModal extends Modal {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private project: Project) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', {text: 'Project Details'});
+
+		const form = contentEl.createDiv('project-form');
+
+		form.createEl('label', {text: 'Name *', cls: 'form-label'});
+		const nameInput = form.createEl('input', {type: 'text', placeholder: 'Project name', value: this.project.name});
+
+		form.createEl('label', {text: 'Description', cls: 'form-label'});
+		const descInput = form.createEl('textarea', {placeholder: 'Project description (optional)'});
+		descInput.value = this.project.description || '';
+
+		form.createEl('label', {text: 'Status', cls: 'form-label'});
+		const statusSelect = form.createEl('select');
+		['active', 'completed', 'archived'].forEach(status => {
+			const option = statusSelect.createEl('option', {value: status, text: status.charAt(0).toUpperCase() + status.slice(1)});
+			if (status === this.project.status) option.selected = true;
+		});
+
+		form.createEl('label', {text: 'Start Date', cls: 'form-label'});
+		const startDateInput = form.createEl('input', {type: 'date'});
+		if (this.project.start_date) startDateInput.value = toLocalDateString(new Date(this.project.start_date));
+
+		form.createEl('label', {text: 'Target Date', cls: 'form-label'});
+		const targetDateInput = form.createEl('input', {type: 'date'});
+		if (this.project.target_date) targetDateInput.value = toLocalDateString(new Date(this.project.target_date));
+
+		form.createEl('label', {text: 'Notes', cls: 'form-label'});
+		renderLinkedNotes(form.createDiv('linked-notes-section'), this.plugin, 'projects', this.project.id);
+
+		form.createEl('label', {text: 'GitHub Repository', cls: 'form-label'});
+		const githubRepoInput = form.createEl('input', {type: 'text', placeholder: 'GitHub repo (owner/repo)'});
+		githubRepoInput.value = this.project.github_repo || '';
+
+		const taskCount = this.plugin.tasks.filter(t => t.project_id === this.project.id).length;
+		const metaDiv = form.createDiv('task-meta-info');
+		metaDiv.createEl('p', {text: `Tasks: ${taskCount}`});
+		metaDiv.createEl('p', {text: `Created: ${new Date(this.project.created_at).toLocaleString()}`});
+		metaDiv.createEl('p', {text: `Updated: ${new Date(this.project.updated_at).toLocaleString()}`});
 
-		const form = contentEl.createDiv('project-selector-form');
-		
-		const projectsList = form.createDiv('projects-list');
-		
-		// Add "All Projects" option
-		const allProjectsEl = projectsList.createDiv('project-selector-item');
-		allProjectsEl.createEl('span', {text: 'All Projects', cls: 'project-name'});
-		allProjectsEl.onclick = async () => {
-			await this.plugin.activateKanbanView();
-			if (this.plugin.kanbanView) {
-				this.plugin.kanbanView.setSelectedProject(null);
+		const buttonDiv = form.createDiv('button-group');
+		const saveBtn = buttonDiv.createEl('button', {text: 'Save Changes'});
+		const archiveBtn = buttonDiv.createEl('button', {text: this.project.status === 'archived' ? 'Unarchive' : 'Archive'});
+		const noteBtn = buttonDiv.createEl('button', {text: this.project.markdown_file ? 'Open Note' : 'Create Note'});
+		const deleteBtn = buttonDiv.createEl('button', {text: 'Delete Project', cls: 'mod-warning'});
+		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
+
+		saveBtn.onclick = async () => {
+			const name = nameInput.value.trim();
+			if (!name) {
+				new Notice('A project needs a name');
+				return;
 			}
+			const startDate = parseLocalDate(startDateInput.value);
+			const targetDate = parseLocalDate(targetDateInput.value);
+			this.close();
+			await this.updateProject({
+				name,
+				description: descInput.value.trim() || undefined,
+				status: statusSelect.value as Project['status'],
+				start_date: startDate ? startDate.toISOString() : null,
+				target_date: targetDate ? targetDate.toISOString() : null,
+				github_repo: githubRepoInput.value.trim() || undefined
+			});
+		};
+
+		archiveBtn.onclick = async () => {
 			this.close();
+			await this.updateProject({ status: this.project.status === 'archived' ? 'active' : 'archived' });
 		};
 
-		// Add individual projects
-		this.plugin.projects.forEach(project => {
-			const projectEl = projectsList.createDiv('project-selector-item');
-			projectEl.createEl('span', {text: project.name, cls: 'project-name'});
-			projectEl.createEl('span', {text: project.status, cls: `status-${project.status}`});
-			if (project.description) {
-				projectEl.createEl('p', {text: project.description, cls: 'project-description'});
+		noteBtn.onclick = async () => {
+			this.close();
+			if (this.project.markdown_file) {
+				this.plugin.app.workspace.openLinkText(this.project.markdown_file, '');
+			} else {
+				await this.plugin.createNoteFromProject(this.project);
 			}
-			
-			projectEl.onclick = async () => {
-				await this.plugin.activateKanbanView();
-				if (this.plugin.kanbanView) {
-					this.plugin.kanbanView.setSelectedProject(project.id);
-				}
+		};
+
+		deleteBtn.onclick = async () => {
+			if (taskCount > 0) {
 				this.close();
-			};
-		});
+				new DeleteProjectModal(this.app, this.plugin, this.project).open();
+			} else if (confirm(`Delete project "${this.project.name}"?`)) {
+				this.close();
+				try {
+					await this.plugin.deleteProject(this.project.id);
+					new Notice(`Project "${this.project.name}" deleted`);
+				} catch (error) {
+					console.error('Failed to delete project:', error);
+					new Notice(`Could not delete "${this.project.name}": ${error.message}`);
+				}
+			}
+		};
 
-		const buttonDiv = form.createDiv('button-group');
-		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
 		cancelBtn.onclick = () => this.close();
 	}
 
+	async updateProject(updates: Partial<Project>) {
+		try {
+			await this.plugin.updateProject(this.project.id, updates);
+		} catch (error) {
+			console.error('Failed to update project:', error);
+			new Notice(`Could not update "${this.project.name}": ${error.message}`);
+		}
+	}
+
 	onClose() {
 		const {contentEl} = this;
 		contentEl.empty();
 	}
 }
 
-class CreateProjectModal extends Modal {
-	constructor(app: App, private plugin: ProjectManagerPlugin) {
+// Asks what should happen to a project's tasks before deleting it
+class DeleteProjectModal extends Modal {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private project: Project) {
 		super(app);
 	}
 
 	onOpen() {
 		const {contentEl} = this;
 		contentEl.empty();
-		contentEl.createEl('h2', {text: 'Create New Project'});
+		contentEl.createEl('h2', {text: `Delete "${this.project.name}"`});
+
+		const taskCount = this.plugin.tasks.filter(t => t.project_id === this.project.id).length;
+		contentEl.createEl('p', {text: `This project has ${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}. What should happen to them?`});
 
 		const form = contentEl.createDiv('project-form');
-		
-		const nameInput = form.createEl('input', {type: 'text', placeholder: 'Project name'});
-		const descInput = form.createEl('textarea', {placeholder: 'Project description (optional)'});
-		
+		const actionSelect = form.createEl('select');
+		actionSelect.createEl('option', {value: 'unassign', text: 'Keep them without a project'});
+		actionSelect.createEl('option', {value: 'move', text: 'Move them to another project'});
+		actionSelect.createEl('option', {value: 'delete', text: 'Delete them'});
+
+		const otherProjects = this.plugin.getSelectableProjects().filter(p => p.id !== this.project.id);
+		const targetSelect = form.createEl('select');
+		otherProjects.forEach(project => targetSelect.createEl('option', {value: project.id, text: project.name}));
+		targetSelect.toggle(false);
+		actionSelect.onchange = () => targetSelect.toggle(actionSelect.value === 'move');
+		if (otherProjects.length === 0) {
+			actionSelect.querySelector('option[value="move"]')?.remove();
+		}
+
 		const buttonDiv = form.createDiv('button-group');
-		const createBtn = buttonDiv.createEl('button', {text: 'Create Project'});
+		const deleteBtn = buttonDiv.createEl('button', {text: 'Delete Project', cls: 'mod-warning'});
 		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
 
-		createBtn.onclick = async () => {
-			if (nameInput.value.trim()) {
-				await this.createProject(nameInput.value.trim(), descInput.value.trim());
-				this.close();
+		deleteBtn.onclick = async () => {
+			const taskHandling: ProjectTaskHandling = actionSelect.value === 'move'
+				? { action: 'move', projectId: targetSelect.value }
+				: { action: actionSelect.value as 'delete' | 'unassign' };
+			this.close();
+			try {
+				await this.plugin.deleteProject(this.project.id, taskHandling);
+				new Notice(`Project "${this.project.name}" deleted`);
+			} catch (error) {
+				console.error('Failed to delete project:', error);
+				new Notice(`Could not delete "${this.project.name}": ${error.message}`);
 			}
 		};
 
 		cancelBtn.onclick = () => this.close();
 	}
 
-	async createProject(name: string, description: string) {
-		if (!this.plugin.supabase) {
-			new Notice('Not connected to Supabase');
-			return;
-		}
-		
-		try {
-			const { error } = await this.plugin.supabase
-				.from('projects')
-				.insert([{ name, description }]);
-			
-			if (error) throw error;
-			new Notice(`Project "${name}" created successfully`);
-			
-			// Force immediate refresh to ensure UI updates
-			await this.plugin.loadProjects();
-		} catch (error) {
-			console.error('Failed to create project:', error);
-			new Notice('Failed to create project');
-		}
-	}
-
 	onClose() {
 		const {contentEl} = this;
 		contentEl.empty();
@@ -584,7 +4515,9 @@ class CreateProjectModal extends Modal {
 }
 
 class CreateTaskModal extends Modal {
-	constructor(app: App, private plugin: ProjectManagerPlugin, private selectedProjectId?: string | null, private defaultStatus?: 'todo' | 'in-progress' | 'done' | 'blocked' | 'cancelled') {
+	// defaultDueDate is a YYYY-MM-DD day, e.g. the calendar day the task is created from;
+	// linkedNote is the path of a note the new task is linked to
+	constructor(app: App, private plugin: ProjectManagerPlugin, private selectedProjectId?: string | null, private defaultStatus?: string, private defaultDueDate?: string, private linkedNote?: string) {
 		super(app);
 	}
 
@@ -603,15 +4536,8 @@ class CreateTaskModal extends Modal {
 		
 		form.createEl('label', {text: 'Status', cls: 'form-label'});
 		const statusSelect = form.createEl('select');
-		['todo', 'in-progress', 'done', 'blocked', 'cancelled'].forEach(status => {
-			const option = statusSelect.createEl('option', {value: status, text: status.replace('-', ' ')});
-			// Pre-select the status based on the column where the task is being created
-			if (this.defaultStatus && status === this.defaultStatus) {
-				option.selected = true;
-			} else if (!this.defaultStatus && status === 'todo') {
-				option.selected = true;
-			}
-		});
+		// Pre-select the status based on the column where the task is being created
+		populateStatusSelect(statusSelect, this.plugin.getWorkflow(this.selectedProjectId), this.defaultStatus || this.plugin.getDefaultStatus(this.selectedProjectId));
 		
 		form.createEl('label', {text: 'Priority', cls: 'form-label'});
 		const prioritySelect = form.createEl('select');
@@ -623,13 +4549,27 @@ class CreateTaskModal extends Modal {
 		form.createEl('label', {text: 'Project', cls: 'form-label'});
 		const projectSelect = form.createEl('select');
 		projectSelect.createEl('option', {value: '', text: 'No project'});
-		this.plugin.projects.forEach(project => {
+		this.plugin.getSelectableProjects(this.selectedProjectId).forEach(project => {
 			const option = projectSelect.createEl('option', {value: project.id, text: project.name});
 			// Pre-select the current project if one is selected
 			if (this.selectedProjectId && project.id === this.selectedProjectId) {
 				option.selected = true;
 			}
 		});
+		// The available statuses follow the chosen project's workflow
+		projectSelect.onchange = () => {
+			populateStatusSelect(statusSelect, this.plugin.getWorkflow(projectSelect.value || null), statusSelect.value);
+		};
+
+		form.createEl('label', {text: 'Due Date', cls: 'form-label'});
+		const dueDateInput = form.createEl('input', {type: 'datetime-local'});
+		if (this.defaultDueDate) {
+			dueDateInput.value = `${this.defaultDueDate}T00:00`;
+		}
+
+		if (this.linkedNote) {
+			form.createEl('p', {text: `Linked note: ${this.linkedNote}`, cls: 'setting-item-description'});
+		}
 		
 		const buttonDiv = form.createDiv('button-group');
 		const createBtn = buttonDiv.createEl('button', {text: 'Create Task'});
@@ -640,9 +4580,10 @@ class CreateTaskModal extends Modal {
 				await this.createTask(
 					titleInput.value.trim(),
 					descInput.value.trim(),
-					statusSelect.value as 'todo' | 'in-progress' | 'done' | 'blocked' | 'cancelled',
+					statusSelect.value,
 					prioritySelect.value as 'low' | 'medium' | 'high' | 'urgent',
-					projectSelect.value || undefined
+					projectSelect.value || undefined,
+					dueDateInput.value ? new Date(dueDateInput.value).toISOString() : undefined
 				);
 				this.close();
 			}
@@ -651,25 +4592,10 @@ class CreateTaskModal extends Modal {
 		cancelBtn.onclick = () => this.close();
 	}
 
-	async createTask(title: string, description: string, status: 'todo' | 'in-progress' | 'done' | 'blocked' | 'cancelled', priority: 'low' | 'medium' | 'high' | 'urgent', projectId?: string) {
-		if (!this.plugin.supabase) {
-			new Notice('Not connected to Supabase');
-			return;
-		}
-		
+	async createTask(title: string, description: string, status: string, priority: 'low' | 'medium' | 'high' | 'urgent', projectId?: string, dueDate?: string) {
 		try {
-			const taskData: { title: string; description: string; status: string; priority: string; project_id?: string } = { title, description, status, priority };
-			if (projectId) taskData.project_id = projectId;
-			
-			const { error } = await this.plugin.supabase
-				.from('tasks')
-				.insert([taskData]);
-			
-			if (error) throw error;
+			await this.plugin.createTask({ title, description: description || undefined, status, priority, project_id: projectId, due_date: dueDate, markdown_file: this.linkedNote });
 			new Notice(`Task "${title}" created successfully`);
-			
-			// Force immediate refresh to ensure UI updates
-			await this.plugin.loadTasks();
 		} catch (error) {
 			console.error('Failed to create task:', error);
 			new Notice('Failed to create task');
@@ -710,34 +4636,65 @@ class TaskDetailModal extends Modal {
 		
 		const statusSelect = form.createEl('select');
 		statusSelect.addClass('task-select');
-		['todo', 'in-progress', 'done', 'blocked', 'cancelled'].forEach(status => {
-			const option = statusSelect.createEl('option', {value: status, text: status});
-			if (status === this.task.status) option.selected = true;
-		});
+		populateStatusSelect(statusSelect, this.plugin.getWorkflow(this.task.project_id), this.task.status);
 		
 		const projectSelect = form.createEl('select');
 		projectSelect.addClass('task-select');
 		projectSelect.createEl('option', {value: '', text: 'No project'});
-		this.plugin.projects.forEach(project => {
+		this.plugin.getSelectableProjects(this.task.project_id).forEach(project => {
 			const option = projectSelect.createEl('option', {value: project.id, text: project.name});
 			if (this.task.project_id === project.id) option.selected = true;
 		});
+		projectSelect.onchange = () => {
+			populateStatusSelect(statusSelect, this.plugin.getWorkflow(projectSelect.value || null), statusSelect.value);
+		};
 		
-		const dueDateInput = form.createEl('input', {type: 'datetime-local'});
+		// A task can't become a subtask of itself or of one of its own subtasks
+		const descendants = this.getDescendantIds(this.task.id);
+		const parentSelect = form.createEl('select');
+		parentSelect.addClass('task-select');
+		parentSelect.createEl('option', {value: '', text: 'No parent task'});
+		this.plugin.tasks
+			.filter(task => task.id !== this.task.id && !descendants.includes(task.id))
+			.forEach(task => {
+				const option = parentSelect.createEl('option', {value: task.id, text: `Subtask of: ${task.title}`});
+				if (this.task.parent_id === task.id) option.selected = true;
+			});
+		
+		const startDateInput = form.createEl('input', {type: 'datetime-local', attr: {title: 'Start date'}});
+		startDateInput.addClass('task-input');
+		if (this.task.start_date) {
+			startDateInput.value = toLocalDateTimeString(new Date(this.task.start_date));
+		}
+		
+		const dueDateInput = form.createEl('input', {type: 'datetime-local', attr: {title: 'Due date'}});
 		dueDateInput.addClass('task-input');
 		if (this.task.due_date) {
-			const date = new Date(this.task.due_date);
-			dueDateInput.value = date.toISOString().slice(0, 16);
+			dueDateInput.value = toLocalDateTimeString(new Date(this.task.due_date));
 		}
 		
-		const markdownFileInput = form.createEl('input', {type: 'text', placeholder: 'Markdown file path'});
-		markdownFileInput.addClass('task-input');
-		markdownFileInput.value = this.task.markdown_file || '';
+		const recurrenceDiv = form.createDiv('recurrence-input');
+		const getRecurrence = createRecurrenceInput(recurrenceDiv, this.task.recurrence);
+		
+		const notesDiv = form.createDiv('linked-notes-section');
+		notesDiv.createEl('h4', {text: 'Linked Notes'});
+		renderLinkedNotes(notesDiv.createDiv(), this.plugin, 'tasks', this.task.id);
 		
 		const githubRepoInput = form.createEl('input', {type: 'text', placeholder: 'GitHub repo (owner/repo)'});
 		githubRepoInput.addClass('task-input');
 		githubRepoInput.value = this.task.github_repo || '';
 		
+		const githubIssueInput = form.createEl('input', {type: 'number', placeholder: 'Issue or pull request number'});
+		githubIssueInput.addClass('task-input');
+		githubIssueInput.min = '1';
+		githubIssueInput.value = this.task.github_issue ? String(this.task.github_issue) : '';
+		
+		const subtasksDiv = form.createDiv('subtasks-section');
+		this.renderSubtasks(subtasksDiv);
+		
+		const dependenciesDiv = form.createDiv('dependencies-section');
+		this.renderDependencies(dependenciesDiv);
+		
 		const metaDiv = form.createDiv('task-meta-info');
 		metaDiv.createEl('p', {text: `Created: ${new Date(this.task.created_at).toLocaleString()}`});
 		metaDiv.createEl('p', {text: `Updated: ${new Date(this.task.updated_at).toLocaleString()}`});
@@ -749,23 +4706,32 @@ class TaskDetailModal extends Modal {
 		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
 
 		saveBtn.onclick = async () => {
-			await this.updateTask({
+			// Close right away; the edit is applied optimistically
+			this.close();
+			const updates: Partial<Task> = {
 				title: titleInput.value.trim(),
 				description: descInput.value.trim() || undefined,
 				priority: prioritySelect.value as 'low' | 'medium' | 'high' | 'urgent',
-				status: statusSelect.value as 'todo' | 'in-progress' | 'done' | 'blocked' | 'cancelled',
 				project_id: projectSelect.value || undefined,
+				parent_id: parentSelect.value || null,
+				start_date: startDateInput.value ? new Date(startDateInput.value).toISOString() : null,
 				due_date: dueDateInput.value ? new Date(dueDateInput.value).toISOString() : undefined,
-				markdown_file: markdownFileInput.value.trim() || undefined,
-				github_repo: githubRepoInput.value.trim() || undefined
-			});
-			this.close();
+				github_repo: githubRepoInput.value.trim() || null,
+				github_issue: parseInt(githubIssueInput.value) || null,
+				recurrence: getRecurrence()
+			};
+			// Only send the status if it was changed here, so automatic moves made
+			// while the modal was open (e.g. into blocked) aren't undone
+			if (statusSelect.value !== this.task.status) {
+				updates.status = statusSelect.value;
+			}
+			await this.updateTask(updates);
 		};
 
 		createNoteBtn.onclick = async () => {
 			if (this.task.markdown_file) {
-				// Open existing note
-				this.plugin.app.workspace.openLinkText(this.task.markdown_file, '');
+				// Open the main note
+				this.plugin.openNote(this.task.markdown_file);
 			} else {
 				// Create new note from task
 				await this.plugin.createNoteFromTask(this.task);
@@ -774,57 +4740,252 @@ class TaskDetailModal extends Modal {
 
 		deleteBtn.onclick = async () => {
 			if (confirm(`Delete task "${this.task.title}"?`)) {
-				await this.deleteTask();
 				this.close();
+				await this.deleteTask();
 			}
 		};
 
 		cancelBtn.onclick = () => this.close();
 	}
 
-	async updateTask(updates: Partial<Task>) {
-		if (!this.plugin.supabase) {
-			new Notice('Not connected to Supabase');
-			return;
+	getDescendantIds(taskId: string): string[] {
+		const children = this.plugin.tasks.filter(t => t.parent_id === taskId);
+		return children.reduce((ids: string[], child) => [...ids, child.id, ...this.getDescendantIds(child.id)], []);
+	}
+
+	renderSubtasks(container: HTMLElement) {
+		container.empty();
+		const subtasks = this.plugin.getSubtasks(this.task.id);
+		const { done, total } = this.plugin.getSubtaskProgress(this.task.id);
+
+		const header = container.createDiv('subtasks-header');
+		header.createEl('h4', {text: 'Subtasks'});
+		if (total > 0) {
+			header.createEl('span', {text: `${done}/${total}`, cls: 'subtask-progress'});
 		}
-		
+
+		const list = container.createDiv('subtask-list');
+		subtasks.forEach((subtask, index) => {
+			const isDone = this.plugin.isDoneStatus(subtask.status, subtask.project_id);
+			const row = list.createDiv('subtask-item');
+
+			const checkbox = row.createEl('input', {type: 'checkbox'});
+			checkbox.checked = isDone;
+			checkbox.onchange = async () => {
+				try {
+					await this.plugin.setTaskDone(subtask, checkbox.checked);
+				} catch (error) {
+					console.error('Failed to update subtask:', error);
+					new Notice(`Could not update "${subtask.title}": ${error.message}`);
+				}
+				this.renderSubtasks(container);
+			};
+
+			const titleEl = row.createEl('span', {text: subtask.title, cls: `subtask-title ${isDone ? 'is-done' : ''}`});
+			titleEl.onclick = () => {
+				this.close();
+				new TaskDetailModal(this.app, this.plugin, subtask).open();
+			};
+
+			const upBtn = row.createEl('button', {text: '↑', cls: 'subtask-move-btn', attr: {title: 'Move up'}});
+			upBtn.disabled = index === 0;
+			upBtn.onclick = () => this.moveSubtask(container, subtasks, index, index - 1);
+
+			const downBtn = row.createEl('button', {text: '↓', cls: 'subtask-move-btn', attr: {title: 'Move down'}});
+			downBtn.disabled = index === subtasks.length - 1;
+			downBtn.onclick = () => this.moveSubtask(container, subtasks, index, index + 1);
+		});
+
+		const addRow = container.createDiv('subtask-add');
+		const addInput = addRow.createEl('input', {type: 'text', placeholder: 'Add a subtask'});
+		addInput.addClass('task-input');
+		const addBtn = addRow.createEl('button', {text: 'Add'});
+		const addSubtask = async () => {
+			const title = addInput.value.trim();
+			if (!title) return;
+			const { position, renumbered } = planTaskPosition(subtasks, subtasks.length, 'subtask_position');
+			try {
+				await Promise.all(renumbered.map(entry => this.plugin.updateTask(entry.id, { subtask_position: entry.position })));
+				await this.plugin.createTask({
+					title,
+					parent_id: this.task.id,
+					project_id: this.task.project_id,
+					priority: this.task.priority,
+					subtask_position: position
+				});
+			} catch (error) {
+				console.error('Failed to create subtask:', error);
+				new Notice(`Could not add subtask: ${error.message}`);
+			}
+			this.renderSubtasks(container);
+		};
+		addBtn.onclick = addSubtask;
+		addInput.onkeydown = (e: KeyboardEvent) => {
+			if (e.key === 'Enter') addSubtask();
+		};
+	}
+
+	renderDependencies(container: HTMLElement) {
+		container.empty();
+		const task = this.plugin.tasks.find(t => t.id === this.task.id) || this.task;
+		const blockers = this.plugin.getBlockers(task);
+		const dependents = this.plugin.getDependents(task.id);
+
+		const renderList = (label: string, items: Task[], onRemove: (item: Task) => Promise<void>) => {
+			container.createEl('h4', {text: label});
+			const list = container.createDiv('dependency-list');
+			if (items.length === 0) {
+				list.createEl('span', {text: 'None', cls: 'dependency-empty'});
+			}
+			items.forEach(item => {
+				const isDone = this.plugin.isDoneStatus(item.status, item.project_id);
+				const row = list.createDiv('dependency-item');
+				row.createEl('span', {text: item.title, cls: `dependency-title ${isDone ? 'is-done' : ''}`});
+				row.createEl('span', {text: this.plugin.getStatusName(item.status, item.project_id), cls: `dependency-status status-${item.status}`});
+				const removeBtn = row.createEl('button', {text: '×', cls: 'dependency-remove-btn', attr: {title: 'Remove dependency'}});
+				removeBtn.onclick = async () => {
+					try {
+						await onRemove(item);
+					} catch (error) {
+						console.error('Failed to remove dependency:', error);
+						new Notice(`Could not remove dependency: ${error.message}`);
+					}
+					this.renderDependencies(container);
+				};
+			});
+		};
+
+		renderList('Blocked by', blockers, item => this.plugin.removeDependency(task.id, item.id));
+		renderList('Blocks', dependents, item => this.plugin.removeDependency(item.id, task.id));
+
+		const candidates = this.plugin.tasks.filter(t =>
+			t.id !== task.id && !blockers.includes(t) && !dependents.includes(t)
+		);
+		const addRow = container.createDiv('dependency-add');
+		const kindSelect = addRow.createEl('select');
+		kindSelect.addClass('task-select');
+		kindSelect.createEl('option', {value: 'blocked-by', text: 'Blocked by'});
+		kindSelect.createEl('option', {value: 'blocks', text: 'Blocks'});
+		const taskSelect = addRow.createEl('select');
+		taskSelect.addClass('task-select');
+		taskSelect.createEl('option', {value: '', text: 'Select task'});
+		candidates.forEach(candidate => {
+			taskSelect.createEl('option', {value: candidate.id, text: candidate.title});
+		});
+		const addBtn = addRow.createEl('button', {text: 'Add'});
+		addBtn.onclick = async () => {
+			if (!taskSelect.value) return;
+			try {
+				if (kindSelect.value === 'blocked-by') {
+					await this.plugin.addDependency(task.id, taskSelect.value);
+				} else {
+					await this.plugin.addDependency(taskSelect.value, task.id);
+				}
+			} catch (error) {
+				console.error('Failed to add dependency:', error);
+				new Notice(error.message);
+			}
+			this.renderDependencies(container);
+		};
+	}
+
+	async moveSubtask(container: HTMLElement, subtasks: Task[], from: number, to: number) {
+		const others = subtasks.filter((_, i) => i !== from);
+		const { position, renumbered } = planTaskPosition(others, to, 'subtask_position');
 		try {
-			const { error } = await this.plugin.supabase
-				.from('tasks')
-				.update(updates)
-				.eq('id', this.task.id);
-			
-			if (error) throw error;
-			new Notice('Task updated successfully');
-			
-			// Force immediate refresh to ensure UI updates
-			await this.plugin.loadTasks();
+			await Promise.all(renumbered.map(entry => this.plugin.updateTask(entry.id, { subtask_position: entry.position })));
+			await this.plugin.updateTask(subtasks[from].id, { subtask_position: position });
+		} catch (error) {
+			console.error('Failed to reorder subtasks:', error);
+			new Notice(`Could not reorder subtasks: ${error.message}`);
+		}
+		this.renderSubtasks(container);
+	}
+
+	async updateTask(updates: Partial<Task>) {
+		try {
+			await this.plugin.updateTask(this.task.id, updates);
 		} catch (error) {
 			console.error('Failed to update task:', error);
-			new Notice('Failed to update task');
+			new Notice(`Could not save "${this.task.title}": ${error.message}. Your edits were reverted.`);
 		}
 	}
 
 	async deleteTask() {
-		if (!this.plugin.supabase) {
-			new Notice('Not connected to Supabase');
-			return;
-		}
-		
 		try {
-			const { error } = await this.plugin.supabase
-				.from('tasks')
-				.delete()
-				.eq('id', this.task.id);
-			
-			if (error) throw error;
-			new Notice('Task deleted successfully');
-			
-			// Force immediate refresh to ensure UI updates
-			await this.plugin.loadTasks();
+			await this.plugin.deleteTask(this.task.id);
 		} catch (error) {
 			console.error('Failed to delete task:', error);
-			new Notice('Failed to delete task');
+			new Notice(`Could not delete "${this.task.title}": ${error.message}. The task was restored.`);
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class LinkNoteModal extends Modal {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private file: TFile) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', {text: `Link "${this.file.name}" to:`});
+
+		const form = contentEl.createDiv('link-form');
+		
+		const projectSelect = form.createEl('select');
+		projectSelect.createEl('option', {value: '', text: 'Select project'});
+		this.plugin.getSelectableProjects().forEach(project => {
+			projectSelect.createEl('option', {value: project.id, text: project.name});
+		});
+		
+		const taskSelect = form.createEl('select');
+		taskSelect.createEl('option', {value: '', text: 'Select task'});
+		this.plugin.tasks.forEach(task => {
+			taskSelect.createEl('option', {value: task.id, text: task.title});
+		});
+
+		const roleInput = form.createEl('input', {type: 'text', placeholder: 'Role (optional, e.g. spec, meeting, log)'});
+		
+		const buttonDiv = form.createDiv('button-group');
+		const linkBtn = buttonDiv.createEl('button', {text: 'Link Note'});
+		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
+
+		linkBtn.onclick = async () => {
+			await this.linkNote(projectSelect.value, taskSelect.value, roleInput.value.trim() || undefined);
+			this.close();
+		};
+
+		cancelBtn.onclick = () => this.close();
+	}
+
+	// Adds the note to the project's and task's existing links
+	async linkNote(projectId: string, taskId: string, role?: string) {
+		const filePath = this.file.path;
+		
+		if (projectId) {
+			try {
+				const linked = await this.plugin.linkNote('projects', projectId, filePath, role);
+				new Notice(linked ? 'Note linked to project' : 'Note was already linked to the project');
+			} catch (error) {
+				console.error('Failed to link note to project:', error);
+				new Notice('Failed to link note to project');
+			}
+		}
+		
+		if (taskId) {
+			try {
+				const linked = await this.plugin.linkNote('tasks', taskId, filePath, role);
+				new Notice(linked ? 'Note linked to task' : 'Note was already linked to the task');
+			} catch (error) {
+				console.error('Failed to link note to task:', error);
+				new Notice('Failed to link note to task');
+			}
 		}
 	}
 
@@ -834,79 +4995,201 @@ class TaskDetailModal extends Modal {
 	}
 }
 
-class LinkNoteModal extends Modal {
-	constructor(app: App, private plugin: ProjectManagerPlugin, private file: TFile) {
+class ExportModal extends Modal {
+	constructor(app: App, private plugin: ProjectManagerPlugin) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', {text: 'Export Projects and Tasks'});
+
+		const form = contentEl.createDiv('project-form');
+
+		const scopeSelect = form.createEl('select');
+		scopeSelect.createEl('option', {value: '', text: 'All projects and tasks'});
+		this.plugin.projects.forEach(project => {
+			scopeSelect.createEl('option', {value: project.id, text: project.status === 'archived' ? `${project.name} (archived)` : project.name});
+		});
+
+		const formatSelect = form.createEl('select');
+		formatSelect.createEl('option', {value: 'json', text: 'JSON'});
+		formatSelect.createEl('option', {value: 'csv', text: 'CSV'});
+
+		const pathInput = form.createEl('input', {type: 'text', placeholder: 'File path in the vault'});
+		// Follow the scope and format until the path is edited by hand
+		let pathEdited = false;
+		const updatePath = () => {
+			if (!pathEdited) pathInput.value = this.plugin.getDefaultExportPath(scopeSelect.value || null, formatSelect.value as ExportFormat);
+		};
+		updatePath();
+		pathInput.oninput = () => pathEdited = true;
+		scopeSelect.onchange = updatePath;
+		formatSelect.onchange = updatePath;
+
+		const buttonDiv = form.createDiv('button-group');
+		const exportBtn = buttonDiv.createEl('button', {text: 'Export', cls: 'mod-cta'});
+		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
+
+		exportBtn.onclick = async () => {
+			const path = pathInput.value.trim();
+			if (!path) {
+				new Notice('Please enter a file path');
+				return;
+			}
+			this.close();
+			try {
+				const { projects, tasks } = await this.plugin.exportData(scopeSelect.value || null, formatSelect.value as ExportFormat, path);
+				new Notice(`Exported ${projects} ${projects === 1 ? 'project' : 'projects'} and ${tasks} ${tasks === 1 ? 'task' : 'tasks'} to ${path}`);
+			} catch (error) {
+				console.error('Failed to export:', error);
+				new Notice(`Export failed: ${error.message}`);
+			}
+		};
+
+		cancelBtn.onclick = () => this.close();
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+// Shows what an import will create and update before anything is written
+class ImportPreviewModal extends Modal {
+	constructor(app: App, private plugin: ProjectManagerPlugin, private file: TFile, private plan: ImportPlan) {
 		super(app);
 	}
 
 	onOpen() {
 		const {contentEl} = this;
 		contentEl.empty();
-		contentEl.createEl('h2', {text: `Link "${this.file.name}" to:`});
-
-		const form = contentEl.createDiv('link-form');
-		
-		const projectSelect = form.createEl('select');
-		projectSelect.createEl('option', {value: '', text: 'Select project'});
-		this.plugin.projects.forEach(project => {
-			projectSelect.createEl('option', {value: project.id, text: project.name});
-		});
-		
-		const taskSelect = form.createEl('select');
-		taskSelect.createEl('option', {value: '', text: 'Select task'});
-		this.plugin.tasks.forEach(task => {
-			taskSelect.createEl('option', {value: task.id, text: task.title});
+		contentEl.createEl('h2', {text: `Import ${this.file.name}`});
+
+		const { projects, tasks, errors, warnings } = this.plan;
+		const count = (actions: ImportAction<unknown>[], action: ImportAction<unknown>['action']) => actions.filter(a => a.action === action).length;
+		const projectSummary = projects.length > 0
+			? `Projects: ${count(projects, 'create')} new, ${count(projects, 'update')} updated, ${count(projects, 'unchanged')} unchanged. `
+			: '';
+		contentEl.createEl('p', {
+			text: `${projectSummary}Tasks: ${count(tasks, 'create')} new, ${count(tasks, 'update')} updated, ${count(tasks, 'unchanged')} unchanged.`,
+			cls: 'import-summary'
 		});
-		
-		const buttonDiv = form.createDiv('button-group');
-		const linkBtn = buttonDiv.createEl('button', {text: 'Link Note'});
+
+		const renderMessages = (title: string, messages: string[], cls: string) => {
+			if (messages.length === 0) return;
+			contentEl.createEl('h4', {text: `${title} (${messages.length})`});
+			const list = contentEl.createEl('ul', {cls});
+			messages.forEach(message => list.createEl('li', {text: message}));
+		};
+		renderMessages('Skipped, invalid', errors, 'import-errors');
+		renderMessages('Warnings', warnings, 'import-warnings');
+
+		const list = contentEl.createDiv('import-list');
+		const renderAction = (kind: string, label: string, item: ImportAction<{ id: string }>) => {
+			if (item.action === 'unchanged') return;
+			const itemEl = list.createDiv(`import-item import-${item.action}`);
+			itemEl.createEl('span', {text: item.action === 'create' ? 'New' : 'Update', cls: 'import-action'});
+			itemEl.createEl('span', {text: `${kind} "${label}"`, cls: 'import-title'});
+			if (item.action === 'update') {
+				const matched = item.matchedBy === 'name' ? 'matched by name' : 'matched by id';
+				itemEl.createEl('span', {text: `${Object.keys(item.changes).join(', ')} · ${matched}`, cls: 'import-meta'});
+			}
+		};
+		projects.forEach(item => renderAction('Project', item.record.name, item));
+		tasks.forEach(item => renderAction('Task', item.record.title, item));
+
+		const hasChanges = [...projects, ...tasks].some(item => item.action !== 'unchanged');
+		if (!hasChanges) {
+			contentEl.createEl('p', {text: 'Nothing to import; everything in this file is already up to date.'});
+		}
+
+		const buttonDiv = contentEl.createDiv('button-group');
+		const importBtn = buttonDiv.createEl('button', {text: 'Import', cls: 'mod-cta'});
+		importBtn.disabled = !hasChanges;
 		const cancelBtn = buttonDiv.createEl('button', {text: 'Cancel'});
 
-		linkBtn.onclick = async () => {
-			await this.linkNote(projectSelect.value, taskSelect.value);
+		importBtn.onclick = async () => {
 			this.close();
+			const { created, updated, failed } = await this.plugin.applyImport(this.plan);
+			const summary = `Imported ${this.file.name}: ${created} created, ${updated} updated`;
+			if (failed.length > 0) {
+				console.error('Import errors:', failed);
+				new Notice(`${summary}. ${failed.length} failed: ${failed.join('; ')}`, 10000);
+			} else {
+				new Notice(summary);
+			}
 		};
 
 		cancelBtn.onclick = () => this.close();
 	}
 
-	async linkNote(projectId: string, taskId: string) {
-		if (!this.plugin.supabase) {
-			new Notice('Not connected to Supabase');
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+class OutboxModal extends Modal {
+	constructor(app: App, private plugin: ProjectManagerPlugin) {
+		super(app);
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		contentEl.empty();
+		contentEl.createEl('h2', {text: 'Pending Changes'});
+
+		if (this.plugin.outbox.length === 0) {
+			contentEl.createEl('p', {text: 'All changes are synced.'});
 			return;
 		}
-		
-		const filePath = this.file.path;
-		
-		if (projectId) {
-			try {
-				const { error } = await this.plugin.supabase
-					.from('projects')
-					.update({ markdown_file: filePath })
-					.eq('id', projectId);
-				
-				if (error) throw error;
-				new Notice('Note linked to project');
-			} catch (error) {
-				console.error('Failed to link note to project:', error);
-				new Notice('Failed to link note to project');
+
+		contentEl.createEl('p', {
+			text: 'These changes are applied locally and will be replayed in order once the storage backend is reachable.',
+			cls: 'outbox-hint'
+		});
+
+		const list = contentEl.createDiv('outbox-list');
+		this.plugin.outbox.forEach(entry => {
+			const itemEl = list.createDiv('outbox-item');
+			const infoEl = itemEl.createDiv('outbox-info');
+			infoEl.createEl('span', {text: this.plugin.describeOutboxEntry(entry), cls: 'outbox-title'});
+			infoEl.createEl('span', {
+				text: `Queued ${new Date(entry.queued_at).toLocaleString()}${entry.attempts > 0 ? ` · ${entry.attempts} failed attempt${entry.attempts === 1 ? '' : 's'}` : ''}`,
+				cls: 'outbox-meta'
+			});
+			if (entry.last_error) {
+				infoEl.createEl('span', {text: entry.last_error, cls: 'outbox-error'});
 			}
-		}
-		
-		if (taskId) {
-			try {
-				const { error } = await this.plugin.supabase
-					.from('tasks')
-					.update({ markdown_file: filePath })
-					.eq('id', taskId);
-				
-				if (error) throw error;
-				new Notice('Note linked to task');
-			} catch (error) {
-				console.error('Failed to link note to task:', error);
-				new Notice('Failed to link note to task');
+
+			const discardBtn = itemEl.createEl('button', {text: 'Discard'});
+			discardBtn.onclick = async () => {
+				await this.plugin.discardOutboxEntries([entry.id]);
+				this.onOpen();
+			};
+		});
+
+		const buttonDiv = contentEl.createDiv('button-group');
+		const retryBtn = buttonDiv.createEl('button', {text: 'Retry Now'});
+		const discardAllBtn = buttonDiv.createEl('button', {text: 'Discard All', cls: 'mod-warning'});
+		const closeBtn = buttonDiv.createEl('button', {text: 'Close'});
+
+		retryBtn.onclick = async () => {
+			await this.plugin.flushOutbox();
+			this.onOpen();
+		};
+
+		discardAllBtn.onclick = async () => {
+			if (confirm('Discard all pending changes? They will be lost.')) {
+				await this.plugin.discardOutboxEntries(this.plugin.outbox.map(entry => entry.id));
+				this.onOpen();
 			}
-		}
+		};
+
+		closeBtn.onclick = () => this.close();
 	}
 
 	onClose() {
@@ -931,58 +5214,131 @@ class ProjectManagerSettingTab extends PluginSettingTab {
 		containerEl.createEl('h2', {text: 'Project Manager Settings'});
 
 		new Setting(containerEl)
-			.setName('Supabase URL')
-			.setDesc('Your Supabase project URL')
-			.addText(text => text
-				.setPlaceholder('https://your-project.supabase.co')
-				.setValue(this.plugin.settings.supabaseUrl)
+			.setName('Storage Backend')
+			.setDesc('Where projects and tasks are stored')
+			.addDropdown(dropdown => dropdown
+				.addOption('supabase', 'Supabase')
+				.addOption('vault', 'Vault (local JSON file)')
+				.setValue(this.plugin.settings.storageBackend)
 				.onChange(async (value) => {
-					this.plugin.settings.supabaseUrl = value;
+					this.plugin.settings.storageBackend = value as StorageBackendType;
 					await this.plugin.saveSettings();
+					this.plugin.initializeStorage();
+					await this.plugin.loadProjectsAndTasks();
+					this.display();
 				}));
 
+		if (this.plugin.settings.storageBackend === 'vault') {
+			new Setting(containerEl)
+				.setName('Vault Store Path')
+				.setDesc('JSON file inside the vault that holds projects and tasks')
+				.addText(text => {
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.vaultStorePath)
+						.setValue(this.plugin.settings.vaultStorePath);
+					// Switch files only once editing is done (on blur or Enter), not on every keystroke
+					text.inputEl.addEventListener('change', async () => {
+						const value = text.getValue().trim() || DEFAULT_SETTINGS.vaultStorePath;
+						if (value === this.plugin.settings.vaultStorePath) return;
+						this.plugin.settings.vaultStorePath = value;
+						await this.plugin.saveSettings();
+						this.plugin.initializeStorage();
+						await this.plugin.loadProjectsAndTasks();
+					});
+				});
+		} else {
+			this.displaySupabaseSettings(containerEl);
+		}
+
 		new Setting(containerEl)
-			.setName('Supabase Anon Key')
-			.setDesc('Your Supabase anonymous/public key')
+			.setName('Default Project Path')
+			.setDesc('Default folder path for project-related notes')
 			.addText(text => text
-				.setPlaceholder('eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...')
-				.setValue(this.plugin.settings.supabaseKey)
+				.setPlaceholder('Projects')
+				.setValue(this.plugin.settings.defaultProjectPath)
 				.onChange(async (value) => {
-					this.plugin.settings.supabaseKey = value;
+					this.plugin.settings.defaultProjectPath = value;
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('Enable Real-time Updates')
-			.setDesc('Automatically sync when data changes in Supabase')
+			.setName('Sync Note Frontmatter')
+			.setDesc('Keep status, priority, due date, project and GitHub repo in sync between tasks and the frontmatter of their linked notes')
 			.addToggle(toggle => toggle
-				.setValue(this.plugin.settings.enableRealtime)
+				.setValue(this.plugin.settings.syncFrontmatter)
 				.onChange(async (value) => {
-					this.plugin.settings.enableRealtime = value;
+					this.plugin.settings.syncFrontmatter = value;
 					await this.plugin.saveSettings();
-					// Reinitialize connection with new settings
-					this.plugin.initializeSupabase();
 				}));
 
 		new Setting(containerEl)
-			.setName('Default Project Path')
-			.setDesc('Default folder path for project-related notes')
+			.setName('Background Checkbox Sync')
+			.setDesc('Automatically import markdown checkboxes as tasks and keep their ticked state in sync')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.checkboxSync)
+				.onChange(async (value) => {
+					this.plugin.settings.checkboxSync = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Checkbox Sync Folder')
+			.setDesc('Only notes in this folder are synced in the background (leave empty for the whole vault)')
 			.addText(text => text
 				.setPlaceholder('Projects')
-				.setValue(this.plugin.settings.defaultProjectPath)
+				.setValue(this.plugin.settings.checkboxSyncFolder)
 				.onChange(async (value) => {
-					this.plugin.settings.defaultProjectPath = value;
+					this.plugin.settings.checkboxSyncFolder = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Hide Subtasks on Board')
+			.setDesc('Only show top-level tasks as cards; subtasks appear as progress on their parent')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.hideSubtasksOnBoard)
+				.onChange(async (value) => {
+					this.plugin.settings.hideSubtasksOnBoard = value;
+					await this.plugin.saveSettings();
+					this.plugin.refreshViews();
+				}));
+
+		new Setting(containerEl)
+			.setName('Show Archived Projects')
+			.setDesc('List archived projects in project pickers, and show their tasks on the all-projects board')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.showArchivedProjects)
+				.onChange(async (value) => {
+					this.plugin.settings.showArchivedProjects = value;
 					await this.plugin.saveSettings();
+					this.plugin.refreshViews();
 				}));
 
+		new Setting(containerEl)
+			.setName('Auto-complete Parent Tasks')
+			.setDesc('Mark a task as done when all of its subtasks are done')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autoCompleteParent)
+				.onChange(async (value) => {
+					this.plugin.settings.autoCompleteParent = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.displayNoteSettings(containerEl);
+
+		this.displayGitHubSettings(containerEl);
+
+		this.displayWorkflowSettings(containerEl);
+
 		// Actions section
 		containerEl.createEl('h3', {text: 'Actions'});
 		
 		const actionsDiv = containerEl.createDiv('connection-controls');
 		
-		const connectBtn = actionsDiv.createEl('button', {text: 'Connect to Supabase'});
+		const connectBtn = actionsDiv.createEl('button', {text: this.plugin.settings.storageBackend === 'vault' ? 'Reload Vault Store' : 'Connect to Supabase'});
 		connectBtn.onclick = () => {
-			this.plugin.initializeSupabase();
+			this.plugin.initializeStorage();
+			this.plugin.loadProjectsAndTasks();
 		};
 		
 		const refreshBtn = actionsDiv.createEl('button', {text: 'Refresh Data'});
@@ -991,6 +5347,284 @@ class ProjectManagerSettingTab extends PluginSettingTab {
 			new Notice('Refreshed project data');
 		};
 	}
+
+	displayNoteSettings(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		containerEl.createEl('h3', {text: 'Notes'});
+		containerEl.createEl('p', {
+			text: 'Templates and paths can use placeholders such as {{title}}, {{status}}, {{priority}}, {{due}}, {{project}} for tasks and {{name}}, {{status}}, {{start}}, {{target}} for projects. Paths are relative to the default project path.',
+			cls: 'setting-item-description'
+		});
+
+		const addTextSetting = (name: string, desc: string, placeholder: string, key: 'taskNoteTemplate' | 'taskNotePath' | 'projectNoteTemplate' | 'projectNotePath') => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addText(text => text
+					.setPlaceholder(placeholder)
+					.setValue(settings[key])
+					.onChange(async (value) => {
+						settings[key] = value.trim() || (key.endsWith('Path') ? DEFAULT_SETTINGS[key] : '');
+						await this.plugin.saveSettings();
+					}));
+		};
+
+		addTextSetting('Task Note Template', 'Vault file used as the body of new task notes (leave empty for a plain heading)', 'Templates/Task.md', 'taskNoteTemplate');
+		addTextSetting('Task Note Path', 'Folder and file name for new task notes', DEFAULT_SETTINGS.taskNotePath, 'taskNotePath');
+		addTextSetting('Project Note Template', 'Vault file used as the body of new project notes (leave empty for a heading and the description)', 'Templates/Project.md', 'projectNoteTemplate');
+		addTextSetting('Project Note Path', 'Folder and file name for new project notes', DEFAULT_SETTINGS.projectNotePath, 'projectNotePath');
+	}
+
+	displayGitHubSettings(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		containerEl.createEl('h3', {text: 'GitHub'});
+		containerEl.createEl('p', {
+			text: 'Syncing imports open issues from each project\'s repository as tasks, and mirrors the title, state and labels of the issue or pull request a task tracks. Tasks move to done when their issue is closed or their pull request is merged.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('GitHub Token')
+			.setDesc('Personal access token; needed for private repositories and higher rate limits')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setPlaceholder('ghp_...')
+					.setValue(settings.githubToken)
+					.onChange(async (value) => {
+						settings.githubToken = value.trim();
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('GitHub API URL')
+			.setDesc('Change this for GitHub Enterprise')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.githubApiUrl)
+				.setValue(settings.githubApiUrl)
+				.onChange(async (value) => {
+					settings.githubApiUrl = value.trim() || DEFAULT_SETTINGS.githubApiUrl;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Sync Now')
+			.setDesc('Import and update issues for all projects with a GitHub repo')
+			.addButton(button => button
+				.setButtonText('Sync')
+				.onClick(() => this.plugin.syncGitHub()));
+	}
+
+	displayWorkflowSettings(containerEl: HTMLElement): void {
+		const { settings } = this.plugin;
+
+		containerEl.createEl('h3', {text: 'Workflows'});
+		containerEl.createEl('p', {
+			text: 'Each workflow is an ordered list of board columns. Columns marked as done count as completed work.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Default Workflow')
+			.setDesc('Used for tasks without a project and for projects without their own workflow')
+			.addDropdown(dropdown => {
+				settings.workflows.forEach(workflow => dropdown.addOption(workflow.id, workflow.name));
+				dropdown
+					.setValue(settings.defaultWorkflowId)
+					.onChange(async (value) => {
+						settings.defaultWorkflowId = value;
+						await this.saveWorkflows();
+					});
+			});
+
+		settings.workflows.forEach(workflow => {
+			const workflowEl = containerEl.createDiv('workflow-settings');
+
+			new Setting(workflowEl)
+				.setName('Workflow name')
+				.setClass('workflow-name-setting')
+				.addText(text => text
+					.setValue(workflow.name)
+					.onChange(async (value) => {
+						workflow.name = value;
+						await this.saveWorkflows(false);
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete workflow')
+					.setDisabled(settings.workflows.length === 1)
+					.onClick(async () => {
+						if (settings.workflows.length === 1) return;
+						if (!confirm(`Delete workflow "${workflow.name}"? Projects using it will switch to the default workflow.`)) return;
+
+						settings.workflows = settings.workflows.filter(w => w.id !== workflow.id);
+						Object.keys(settings.projectWorkflows).forEach(projectId => {
+							if (settings.projectWorkflows[projectId] === workflow.id) {
+								delete settings.projectWorkflows[projectId];
+							}
+						});
+						if (settings.defaultWorkflowId === workflow.id) {
+							settings.defaultWorkflowId = settings.workflows[0].id;
+						}
+						await this.saveWorkflows();
+					}));
+
+			workflow.columns.forEach((column, index) => {
+				new Setting(workflowEl)
+					.setDesc(`Status: ${column.id}`)
+					.addText(text => text
+						.setPlaceholder('Column name')
+						.setValue(column.name)
+						.onChange(async (value) => {
+							column.name = value;
+							await this.saveWorkflows(false);
+						}))
+					.addColorPicker(picker => picker
+						.setValue(column.color || '#888888')
+						.onChange(async (value) => {
+							column.color = value;
+							await this.saveWorkflows(false);
+						}))
+					.addToggle(toggle => toggle
+						.setTooltip('Counts as done')
+						.setValue(column.isDone)
+						.onChange(async (value) => {
+							column.isDone = value;
+							await this.saveWorkflows(false);
+						}))
+					.addExtraButton(button => button
+						.setIcon('arrow-up')
+						.setTooltip('Move up')
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							if (index === 0) return;
+							workflow.columns.splice(index - 1, 0, workflow.columns.splice(index, 1)[0]);
+							await this.saveWorkflows();
+						}))
+					.addExtraButton(button => button
+						.setIcon('arrow-down')
+						.setTooltip('Move down')
+						.setDisabled(index === workflow.columns.length - 1)
+						.onClick(async () => {
+							if (index === workflow.columns.length - 1) return;
+							workflow.columns.splice(index + 1, 0, workflow.columns.splice(index, 1)[0]);
+							await this.saveWorkflows();
+						}))
+					.addExtraButton(button => button
+						.setIcon('trash')
+						.setTooltip('Delete column')
+						.setDisabled(workflow.columns.length === 1)
+						.onClick(async () => {
+							if (workflow.columns.length === 1) return;
+							const inUse = this.plugin.tasks.filter(task => task.status === column.id).length;
+							if (inUse > 0 && !confirm(`${inUse} task(s) have the status "${column.name}". They will show in a separate column until moved. Delete anyway?`)) return;
+							workflow.columns.splice(index, 1);
+							await this.saveWorkflows();
+						}));
+			});
+
+			let newColumnName = '';
+			new Setting(workflowEl)
+				.addText(text => text
+					.setPlaceholder('New column name')
+					.onChange(value => newColumnName = value.trim()))
+				.addButton(button => button
+					.setButtonText('Add Column')
+					.onClick(async () => {
+						if (!newColumnName) return;
+						workflow.columns.push({
+							id: uniqueSlug(newColumnName, workflow.columns.map(c => c.id)),
+							name: newColumnName,
+							color: '#888888',
+							isDone: false
+						});
+						await this.saveWorkflows();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Workflow')
+				.onClick(async () => {
+					// Start from a copy of the default workflow's columns
+					const base = this.plugin.getWorkflow(null);
+					settings.workflows.push({
+						id: uniqueSlug('workflow', settings.workflows.map(w => w.id)),
+						name: 'New Workflow',
+						columns: base.columns.map(column => ({ ...column }))
+					});
+					await this.saveWorkflows();
+				}));
+
+		if (this.plugin.projects.length > 0) {
+			containerEl.createEl('h4', {text: 'Project Workflows'});
+			this.plugin.projects.forEach(project => {
+				new Setting(containerEl)
+					.setName(project.name)
+					.addDropdown(dropdown => {
+						dropdown.addOption('', 'Default workflow');
+						settings.workflows.forEach(workflow => dropdown.addOption(workflow.id, workflow.name));
+						dropdown
+							.setValue(settings.projectWorkflows[project.id] || '')
+							.onChange(async (value) => {
+								if (value) {
+									settings.projectWorkflows[project.id] = value;
+								} else {
+									delete settings.projectWorkflows[project.id];
+								}
+								await this.saveWorkflows(false);
+							});
+					});
+			});
+		}
+	}
+
+	async saveWorkflows(redisplay = true) {
+		await this.plugin.saveSettings();
+		this.plugin.refreshViews();
+		if (redisplay) {
+			this.display();
+		}
+	}
+
+	displaySupabaseSettings(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Supabase URL')
+			.setDesc('Your Supabase project URL')
+			.addText(text => text
+				.setPlaceholder('https://your-project.supabase.co')
+				.setValue(this.plugin.settings.supabaseUrl)
+				.onChange(async (value) => {
+					this.plugin.settings.supabaseUrl = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Supabase Anon Key')
+			.setDesc('Your Supabase anonymous/public key')
+			.addText(text => text
+				.setPlaceholder('eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...')
+				.setValue(this.plugin.settings.supabaseKey)
+				.onChange(async (value) => {
+					this.plugin.settings.supabaseKey = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Enable Real-time Updates')
+			.setDesc('Automatically sync when data changes in Supabase')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.enableRealtime)
+				.onChange(async (value) => {
+					this.plugin.settings.enableRealtime = value;
+					await this.plugin.saveSettings();
+					// Reinitialize connection with new settings
+					this.plugin.initializeSupabase();
+				}));
+	}
 }
 
 // React Components
@@ -1000,10 +5634,15 @@ interface KanbanBoardProps {
 	tasks: Task[];
 	selectedProjectId: string | null;
 	onProjectChange: (projectId: string | null) => void;
+	filterText: string;
+	onFilterChange: (filterText: string) => void;
+	swimlanes: SwimlaneGrouping;
+	onSwimlanesChange: (grouping: SwimlaneGrouping) => void;
 }
 
-const KanbanBoard: React.FC<KanbanBoardProps> = ({ plugin, projects, tasks, selectedProjectId, onProjectChange }) => {
+const KanbanBoard: React.FC<KanbanBoardProps> = ({ plugin, projects, tasks, selectedProjectId, onProjectChange, filterText, onFilterChange, swimlanes, onSwimlanesChange }) => {
 	const [activeId, setActiveId] = React.useState<string | null>(null);
+	const [collapsedLanes, setCollapsedLanes] = React.useState<string[]>([]);
 	
 	// Use props directly instead of local state to ensure real-time updates
 	const currentTasks = React.useMemo(() => tasks, [tasks]);
@@ -1017,23 +5656,52 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ plugin, projects, tasks, sele
 		})
 	);
 
+	const filter = React.useMemo(() => parseFilterQuery(filterText), [filterText]);
+
 	// Filter tasks based on selected project
-	const filteredTasks = React.useMemo(() => {
+	const projectTasks = React.useMemo(() => {
+		// Subtasks can be hidden so they only show on their parent's card
+		const visibleTasks = plugin.settings.hideSubtasksOnBoard
+			? currentTasks.filter(task => !task.parent_id)
+			: currentTasks;
+
 		if (selectedProjectId === null) {
-			// Show all tasks when no specific project is selected
-			return currentTasks;
+			// Show all tasks when no specific project is selected, except those of archived projects unless they are shown
+			if (plugin.settings.showArchivedProjects) return visibleTasks;
+			const archivedIds = currentProjects.filter(p => p.status === 'archived').map(p => p.id);
+			return visibleTasks.filter(task => !task.project_id || !archivedIds.includes(task.project_id));
 		} else {
 			// Show only tasks for the selected project
-			return currentTasks.filter(task => task.project_id === selectedProjectId);
+			return visibleTasks.filter(task => task.project_id === selectedProjectId);
 		}
-	}, [currentTasks, selectedProjectId]);
+	}, [currentTasks, currentProjects, selectedProjectId, plugin.settings.hideSubtasksOnBoard, plugin.settings.showArchivedProjects]);
+
+	// Then apply the filter bar on top of the project selection
+	const filteredTasks = React.useMemo(() => {
+		if (isTaskQueryEmpty(filter.query)) return projectTasks;
+		return projectTasks.filter(task => plugin.matchesTaskQuery(task, filter.query));
+	}, [projectTasks, filter]);
+
+	// Columns come from the workflow of the selected project (or all workflows in use)
+	const columns = plugin.getBoardColumns(selectedProjectId, filteredTasks);
+
+	// Swimlanes are only offered across all projects; otherwise the board is a single lane
+	const grouping = selectedProjectId === null ? swimlanes : 'none';
+	const lanes = buildSwimlanes(grouping, filteredTasks, currentProjects);
+	const laneColumns: Record<string, Record<string, Task[]>> = {};
+	const taskLanes: Record<string, string> = {};
+	lanes.forEach(lane => {
+		laneColumns[lane.id] = {};
+		columns.forEach(column => {
+			laneColumns[lane.id][column.id] = sortTasksByPosition(lane.tasks.filter(task => task.status === column.id));
+		});
+		lane.tasks.forEach(task => taskLanes[task.id] = lane.id);
+	});
 
-	const tasksByStatus = {
-		'todo': filteredTasks.filter(task => task.status === 'todo'),
-		'in-progress': filteredTasks.filter(task => task.status === 'in-progress'),
-		'done': filteredTasks.filter(task => task.status === 'done'),
-		'blocked': filteredTasks.filter(task => task.status === 'blocked'),
-		'cancelled': filteredTasks.filter(task => task.status === 'cancelled'),
+	const toggleLane = (laneId: string) => {
+		setCollapsedLanes(collapsedLanes.includes(laneId)
+			? collapsedLanes.filter(id => id !== laneId)
+			: [...collapsedLanes, laneId]);
 	};
 
 	const handleDragStart = (event: DragStartEvent) => {
@@ -1047,39 +5715,85 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ plugin, projects, tasks, sele
 		if (!over) return;
 
 		const taskId = active.id as string;
-		const newStatus = over.id as string;
 
 		// Find the task being moved
 		const task = filteredTasks.find(t => t.id === taskId);
-		if (!task || task.status === newStatus) return;
+		if (!task || over.id === taskId) return;
+
+		// The card was dropped either on a column or on another card
+		const overTask = filteredTasks.find(t => t.id === over.id);
+		let laneId = taskLanes[taskId];
+		let newStatus: string;
+		if (overTask) {
+			laneId = taskLanes[overTask.id];
+			newStatus = overTask.status;
+		} else {
+			const target = parseColumnDroppableId(over.id as string);
+			laneId = target.laneId;
+			newStatus = target.status;
+		}
+		const lane = lanes.find(l => l.id === laneId);
+		if (!lane || !laneColumns[lane.id][newStatus]) return;
 
-		// Update task status in Supabase
-		if (plugin.supabase) {
-			try {
-				const { error } = await plugin.supabase
-					.from('tasks')
-					.update({ status: newStatus })
-					.eq('id', taskId);
+		// Moving across lanes also changes the field the board is grouped by
+		const laneChanged = lane.id !== taskLanes[taskId];
+		if (laneChanged && !lane.update) {
+			new Notice(`Cards can't be moved into "${lane.name}"`);
+			return;
+		}
+		const laneUpdate = laneChanged && lane.update ? lane.update : {};
+		const projectId = 'project_id' in laneUpdate ? laneUpdate.project_id : task.project_id;
 
-				if (error) throw error;
-				new Notice(`Task moved to ${newStatus}`);
+		if ((newStatus !== task.status || projectId !== task.project_id)
+			&& !plugin.getWorkflow(projectId).columns.some(c => c.id === newStatus)) {
+			new Notice(`"${plugin.getStatusName(newStatus)}" is not part of the workflow for "${task.title}"`);
+			return;
+		}
+		const tasksByStatus = laneColumns[lane.id];
+		const column = tasksByStatus[newStatus].filter(t => t.id !== taskId);
+		let index = column.length;
+		if (overTask) {
+			const overIndex = tasksByStatus[newStatus].findIndex(t => t.id === overTask.id);
+			// Within a column the card takes the slot of the card it was dropped on
+			index = overIndex;
+		}
 
-				// Force immediate refresh to ensure UI updates
-				await plugin.loadTasks();
-			} catch (error) {
-				console.error('Failed to update task status:', error);
-				new Notice('Failed to move task. Please try again.');
-				
-				// Force refresh to restore correct state
-				await plugin.loadTasks();
-			}
-		} else {
-			new Notice('Not connected to database');
+		const currentIndex = tasksByStatus[task.status] ? tasksByStatus[task.status].findIndex(t => t.id === taskId) : -1;
+		if (!laneChanged && task.status === newStatus && currentIndex === index) return;
+
+		const { position, renumbered } = planTaskPosition(column, index);
+
+		// The card moves immediately; the write happens in the background and
+		// is rolled back by the plugin if the backend rejects it
+		try {
+			await Promise.all(renumbered.map(entry => plugin.updateTask(entry.id, { position: entry.position })));
+			await plugin.updateTask(taskId, { ...laneUpdate, status: newStatus, position });
+		} catch (error) {
+			console.error('Failed to update task status:', error);
+			new Notice(`Could not move "${task.title}" to ${newStatus}: ${error.message}. The card was moved back.`);
 		}
 	};
 
 	const draggedTask = activeId ? filteredTasks.find(task => task.id === activeId) : null;
 
+	const renderLaneColumns = (lane: Swimlane) =>
+		React.createElement('div', { className: 'kanban-columns' },
+			columns.map(column =>
+				React.createElement(KanbanColumn, {
+					key: column.id,
+					title: column.name,
+					status: column.id,
+					laneId: lane.id,
+					color: column.color,
+					tasks: laneColumns[lane.id][column.id],
+					plugin,
+					// New tasks added in a project lane belong to that project
+					selectedProjectId: grouping === 'project' && lane.id !== 'none' ? lane.id : selectedProjectId,
+					highlight: filter.query.text
+				})
+			)
+		);
+
 	return React.createElement(DndContext, {
 		sensors,
 		onDragStart: handleDragStart,
@@ -1095,48 +5809,48 @@ const KanbanBoard: React.FC<KanbanBoardProps> = ({ plugin, projects, tasks, sele
 					}, '+ New Project')
 				),
 				React.createElement(ProjectSelector, {
-					projects: currentProjects,
+					projects: plugin.getSelectableProjects(selectedProjectId),
 					selectedProjectId,
-					onProjectChange
-				})
-			),
-			React.createElement('div', { className: 'kanban-columns' },
-				React.createElement(KanbanColumn, {
-					title: 'To Do',
-					status: 'todo',
-					tasks: tasksByStatus['todo'],
-					plugin,
-					selectedProjectId
+					onProjectChange,
+					onEditProject: (project: Project) => new ProjectDetailModal(plugin.app, plugin, project).open(),
+					onExportBoard: (project: Project) => plugin.exportKanbanBoardWithNotice(project)
 				}),
-				React.createElement(KanbanColumn, {
-					title: 'In Progress',
-					status: 'in-progress',
-					tasks: tasksByStatus['in-progress'],
-					plugin,
-					selectedProjectId
-				}),
-				React.createElement(KanbanColumn, {
-					title: 'Done',
-					status: 'done',
-					tasks: tasksByStatus['done'],
-					plugin,
-					selectedProjectId
-				}),
-				React.createElement(KanbanColumn, {
-					title: 'Blocked',
-					status: 'blocked',
-					tasks: tasksByStatus['blocked'],
-					plugin,
-					selectedProjectId
+				selectedProjectId === null && React.createElement(SwimlaneSelector, {
+					value: swimlanes,
+					onChange: onSwimlanesChange
 				}),
-				React.createElement(KanbanColumn, {
-					title: 'Cancelled',
-					status: 'cancelled',
-					tasks: tasksByStatus['cancelled'],
-					plugin,
-					selectedProjectId
+				React.createElement(FilterBar, {
+					value: filterText,
+					onChange: onFilterChange,
+					errors: filter.errors,
+					matchCount: filteredTasks.length,
+					totalCount: projectTasks.length
 				})
-			)
+			),
+			grouping === 'none'
+				? renderLaneColumns(lanes[0])
+				: React.createElement('div', { className: 'kanban-swimlanes' },
+					lanes.map(lane => {
+						const collapsed = collapsedLanes.includes(lane.id);
+						return React.createElement('div', { key: lane.id, className: `kanban-swimlane ${collapsed ? 'is-collapsed' : ''}` },
+							React.createElement('div', {
+								className: 'swimlane-header',
+								onClick: () => toggleLane(lane.id)
+							},
+								React.createElement('span', { className: 'swimlane-toggle' }, collapsed ? '▸' : '▾'),
+								React.createElement('h3', null, lane.name),
+								React.createElement('span', { className: 'task-count' }, lane.tasks.length),
+								React.createElement('span', { className: 'swimlane-counts' },
+									columns
+										.filter(column => laneColumns[lane.id][column.id].length > 0)
+										.map(column => `${column.name}: ${laneColumns[lane.id][column.id].length}`)
+										.join(' · ')
+								)
+							),
+							!collapsed && renderLaneColumns(lane)
+						);
+					})
+				)
 		),
 		React.createElement(DragOverlay, null,
 			draggedTask && React.createElement(TaskCard, {
@@ -1152,9 +5866,11 @@ interface ProjectSelectorProps {
 	projects: Project[];
 	selectedProjectId: string | null;
 	onProjectChange: (projectId: string | null) => void;
+	onEditProject?: (project: Project) => void;
+	onExportBoard?: (project: Project) => void;
 }
 
-const ProjectSelector: React.FC<ProjectSelectorProps> = ({ projects, selectedProjectId, onProjectChange }) => {
+const ProjectSelector: React.FC<ProjectSelectorProps> = ({ projects, selectedProjectId, onProjectChange, onEditProject, onExportBoard }) => {
 	const selectedProject = projects.find(p => p.id === selectedProjectId);
 
 	return React.createElement('div', { className: 'project-selector' },
@@ -1183,11 +5899,85 @@ const ProjectSelector: React.FC<ProjectSelectorProps> = ({ projects, selectedPro
 			),
 			selectedProject.description && React.createElement('span', { className: 'project-description' }, 
 				selectedProject.description
-			)
+			),
+			onEditProject && React.createElement('button', {
+				className: 'edit-project-btn',
+				onClick: () => onEditProject(selectedProject),
+				title: 'Edit project'
+			}, 'Edit'),
+			onExportBoard && React.createElement('button', {
+				className: 'edit-project-btn',
+				onClick: () => onExportBoard(selectedProject),
+				title: 'Export this board as a markdown Kanban note'
+			}, 'Export')
+		)
+	);
+};
+
+interface SwimlaneSelectorProps {
+	value: SwimlaneGrouping;
+	onChange: (grouping: SwimlaneGrouping) => void;
+}
+
+const SwimlaneSelector: React.FC<SwimlaneSelectorProps> = ({ value, onChange }) => {
+	return React.createElement('div', { className: 'swimlane-selector' },
+		React.createElement('span', null, 'Swimlanes: '),
+		React.createElement('select', {
+			value,
+			onChange: (e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value as SwimlaneGrouping),
+			className: 'swimlane-select'
+		},
+			React.createElement('option', { value: 'none' }, 'None'),
+			React.createElement('option', { value: 'project' }, 'By project'),
+			React.createElement('option', { value: 'priority' }, 'By priority'),
+			React.createElement('option', { value: 'due' }, 'By due date')
 		)
 	);
 };
 
+interface FilterBarProps {
+	value: string;
+	onChange: (value: string) => void;
+	errors: string[];
+	matchCount: number;
+	totalCount: number;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({ value, onChange, errors, matchCount, totalCount }) => {
+	return React.createElement('div', { className: 'filter-bar' },
+		React.createElement('div', { className: 'filter-bar-input-row' },
+			React.createElement('input', {
+				type: 'text',
+				className: 'filter-bar-input',
+				value,
+				placeholder: 'Filter: priority:high,urgent due:<7d has:note repo:org/app "login"',
+				onChange: (e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value)
+			}),
+			value && React.createElement('button', {
+				className: 'filter-bar-clear',
+				onClick: () => onChange(''),
+				title: 'Clear filter'
+			}, '×')
+		),
+		value.trim() && React.createElement('div', { className: 'filter-bar-status' },
+			React.createElement('span', null, `${matchCount} of ${totalCount} tasks`),
+			errors.map(error => React.createElement('span', { key: error, className: 'filter-bar-error' }, error))
+		)
+	);
+};
+
+// Wraps case-insensitive occurrences of any term in <mark>
+function highlightText(text: string, terms?: string[]): React.ReactNode {
+	const activeTerms = (terms || []).filter(term => term);
+	if (activeTerms.length === 0) return text;
+
+	const escaped = activeTerms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+	const parts = text.split(new RegExp(`(${escaped.join('|')})`, 'gi'));
+	return parts.map((part, index) =>
+		index % 2 === 1 ? React.createElement('mark', { key: index, className: 'filter-match' }, part) : part
+	);
+}
+
 interface ProjectFilterProps {
 	projects: Project[];
 	selectedProjects: string[];
@@ -1233,21 +6023,38 @@ const ProjectFilter: React.FC<ProjectFilterProps> = ({ projects, selectedProject
 interface KanbanColumnProps {
 	title: string;
 	status: string;
+	color?: string;
 	tasks: Task[];
 	plugin: ProjectManagerPlugin;
 	selectedProjectId?: string | null;
+	highlight?: string[];
+	// Swimlane the column belongs to; empty when the board has no swimlanes
+	laneId?: string;
+}
+
+// Columns in a swimlane need a droppable id that is unique across lanes
+function getColumnDroppableId(laneId: string, status: string): string {
+	return laneId ? `${laneId}::${status}` : status;
+}
+
+function parseColumnDroppableId(id: string): { laneId: string; status: string } {
+	const separator = id.indexOf('::');
+	return separator === -1
+		? { laneId: '', status: id }
+		: { laneId: id.slice(0, separator), status: id.slice(separator + 2) };
 }
 
-const KanbanColumn: React.FC<KanbanColumnProps> = ({ title, status, tasks, plugin, selectedProjectId }) => {
+const KanbanColumn: React.FC<KanbanColumnProps> = ({ title, status, color, tasks, plugin, selectedProjectId, highlight, laneId = '' }) => {
 	const { setNodeRef, isOver } = useDroppable({
-		id: status,
+		id: getColumnDroppableId(laneId, status),
 	});
 
 	const taskIds = tasks.map(task => task.id);
 
 	return React.createElement('div', { 
 		ref: setNodeRef,
-		className: `kanban-column status-${status} ${isOver ? 'column-over' : ''}` 
+		className: `kanban-column status-${status} ${isOver ? 'column-over' : ''}`,
+		style: color ? { borderTopColor: color } : undefined
 	},
 		React.createElement('div', { className: 'column-header' },
 			React.createElement('h3', null, title),
@@ -1261,13 +6068,14 @@ const KanbanColumn: React.FC<KanbanColumnProps> = ({ title, status, tasks, plugi
 					React.createElement(DraggableTaskCard, {
 						key: task.id,
 						task,
-						plugin
+						plugin,
+						highlight
 					})
 				)
 			}),
 			React.createElement('button', {
 				className: 'add-task-btn',
-				onClick: () => new CreateTaskModal(plugin.app, plugin, selectedProjectId, status as 'todo' | 'in-progress' | 'done' | 'blocked' | 'cancelled').open()
+				onClick: () => new CreateTaskModal(plugin.app, plugin, selectedProjectId, status).open()
 			}, '+ Add Task')
 		)
 	);
@@ -1277,9 +6085,11 @@ interface TaskCardProps {
 	task: Task;
 	plugin: ProjectManagerPlugin;
 	isDragging?: boolean;
+	// Search terms to mark in the title and description
+	highlight?: string[];
 }
 
-const DraggableTaskCard: React.FC<TaskCardProps> = ({ task, plugin }) => {
+const DraggableTaskCard: React.FC<TaskCardProps> = ({ task, plugin, highlight }) => {
 	const {
 		attributes,
 		listeners,
@@ -1301,12 +6111,16 @@ const DraggableTaskCard: React.FC<TaskCardProps> = ({ task, plugin }) => {
 		...attributes,
 		...listeners,
 	},
-		React.createElement(TaskCard, { task, plugin, isDragging })
+		React.createElement(TaskCard, { task, plugin, isDragging, highlight })
 	);
 };
 
-const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging }) => {
+const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging, highlight }) => {
 	const project = plugin.projects.find(p => p.id === task.project_id);
+	const parent = task.parent_id ? plugin.tasks.find(t => t.id === task.parent_id) : undefined;
+	const subtaskProgress = plugin.getSubtaskProgress(task.id);
+	const openBlockers = plugin.getOpenBlockers(task);
+	const dependents = plugin.getDependents(task.id);
 
 	const handleTaskClick = () => {
 		if (!isDragging) {
@@ -1315,11 +6129,25 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging }) => {
 		}
 	};
 
-	const handleLinkClick = (e: React.MouseEvent, link: string) => {
+	const notes = getLinkedNotes(task);
+	const noteMissing = notes.some(note => plugin.isNoteMissing(note.path));
+
+	// One note opens directly; several get a menu to pick from
+	const handleLinkClick = (e: React.MouseEvent) => {
 		e.stopPropagation();
-		if (task.markdown_file) {
-			plugin.app.workspace.openLinkText(task.markdown_file, '');
+		if (notes.length === 1) {
+			plugin.openNote(notes[0].path);
+			return;
 		}
+		const menu = new Menu();
+		notes.forEach(note => {
+			const name = (note.path.split('/').pop() || note.path).replace(/\.md$/, '');
+			menu.addItem(item => item
+				.setTitle(`${note.role ? `${note.role}: ` : ''}${name}${plugin.isNoteMissing(note.path) ? ' (missing)' : ''}`)
+				.setIcon('file-text')
+				.onClick(() => plugin.openNote(note.path)));
+		});
+		menu.showAtMouseEvent(e.nativeEvent);
 	};
 
 	const handleCreateNote = async (e: React.MouseEvent) => {
@@ -1333,23 +6161,10 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging }) => {
 		e.stopPropagation();
 		if (!isDragging && confirm(`Delete task "${task.title}"?`)) {
 			try {
-				if (plugin.supabase) {
-					const { error } = await plugin.supabase
-						.from('tasks')
-						.delete()
-						.eq('id', task.id);
-					
-					if (error) throw error;
-					new Notice('Task deleted successfully');
-					
-					// Force immediate refresh to ensure UI updates
-					await plugin.loadTasks();
-				} else {
-					new Notice('Not connected to database');
-				}
+				await plugin.deleteTask(task.id);
 			} catch (error) {
 				console.error('Failed to delete task:', error);
-				new Notice('Failed to delete task. Please try again.');
+				new Notice(`Could not delete "${task.title}": ${error.message}. The task was restored.`);
 			}
 		}
 	};
@@ -1378,7 +6193,7 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging }) => {
 	},
 		React.createElement('div', { className: 'task-header' },
 			React.createElement('div', { className: 'task-title-section' },
-				React.createElement('span', { className: 'task-title' }, task.title),
+				React.createElement('span', { className: 'task-title' }, highlightText(task.title, highlight)),
 				React.createElement('span', { className: `priority-indicator priority-${task.priority}` }, 
 					task.priority.charAt(0).toUpperCase()
 				)
@@ -1390,33 +6205,57 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging }) => {
 			}, '×')
 		),
 		task.description && React.createElement('p', { className: 'task-description' }, 
-			task.description.length > 100 ? task.description.substring(0, 100) + '...' : task.description
+			highlightText(task.description.length > 100 ? task.description.substring(0, 100) + '...' : task.description, highlight)
 		),
 		React.createElement('div', { className: 'task-meta' },
 			project && React.createElement('span', { className: 'project-badge' }, project.name),
+			parent && React.createElement('span', { className: 'parent-badge', title: `Subtask of ${parent.title}` }, `↳ ${parent.title}`),
+			subtaskProgress.total > 0 && React.createElement('span', {
+				className: `subtask-progress ${subtaskProgress.done === subtaskProgress.total ? 'is-complete' : ''}`,
+				title: 'Subtasks done'
+			}, `☑ ${subtaskProgress.done}/${subtaskProgress.total}`),
+			openBlockers.length > 0 && React.createElement('span', {
+				className: 'dependency-badge is-blocked',
+				title: `Blocked by: ${openBlockers.map(t => t.title).join(', ')}`
+			}, `⛔ ${openBlockers.length}`),
+			task.recurrence && React.createElement('span', {
+				className: 'recurrence-badge',
+				title: describeRecurrence(task.recurrence)
+			}, '🔁'),
+			dependents.length > 0 && React.createElement('span', {
+				className: 'dependency-badge',
+				title: `Blocks: ${dependents.map(t => t.title).join(', ')}`
+			}, `⤳ ${dependents.length}`),
 			task.due_date && React.createElement('span', { 
 				className: `due-date ${getDueDateStatus()}` 
 			}, formatDate(task.due_date))
 		),
+		task.github_labels && task.github_labels.length > 0 && React.createElement('div', { className: 'github-labels' },
+			task.github_labels.map(label => React.createElement('span', { key: label, className: 'github-label' }, label))
+		),
 		React.createElement('div', { className: 'task-footer' },
 			React.createElement('div', { className: 'task-links' },
-				task.markdown_file && React.createElement('button', {
-					className: 'link-btn markdown-link',
-					onClick: (e: React.MouseEvent) => handleLinkClick(e, task.markdown_file!),
-					title: 'Open linked note'
-				}, '📝'),
-				!task.markdown_file && React.createElement('button', {
+				notes.length > 0 && React.createElement('button', {
+					className: `link-btn markdown-link ${noteMissing ? 'is-missing' : ''}`,
+					onClick: handleLinkClick,
+					title: noteMissing ? 'A linked note was not found' : notes.length === 1 ? 'Open linked note' : 'Open a linked note'
+				}, `${noteMissing ? '⚠️' : '📝'}${notes.length > 1 ? ` ${notes.length}` : ''}`),
+				notes.length === 0 && React.createElement('button', {
 					className: 'link-btn create-note-btn',
 					onClick: handleCreateNote,
 					title: 'Create note from task'
 				}, '📄'),
 				task.github_repo && React.createElement('a', {
-					className: 'link-btn github-link',
-					href: `https://github.com/${task.github_repo}`,
+					className: `link-btn github-link ${task.github_state ? `github-${task.github_state}` : ''}`,
+					href: task.github_issue
+						? `${getGitHubWebUrl(plugin.settings.githubApiUrl)}/${task.github_repo}/issues/${task.github_issue}`
+						: `${getGitHubWebUrl(plugin.settings.githubApiUrl)}/${task.github_repo}`,
 					onClick: (e: React.MouseEvent) => e.stopPropagation(),
-					title: 'Open GitHub repo',
+					title: task.github_issue
+						? `Open ${task.github_repo}#${task.github_issue}${task.github_state ? ` (${task.github_state})` : ''}`
+						: 'Open GitHub repo',
 					target: '_blank'
-				}, '🔗')
+				}, task.github_issue ? `🔗 #${task.github_issue}` : '🔗')
 			),
 			React.createElement('span', { className: 'created-date' }, 
 				formatDate(task.created_at)
@@ -1424,3 +6263,715 @@ const TaskCard: React.FC<TaskCardProps> = ({ task, plugin, isDragging }) => {
 		)
 	);
 };
+
+type CalendarMode = 'month' | 'week';
+
+// Id of the drop zone for tasks without a due date
+const UNSCHEDULED_DROP_ID = 'unscheduled';
+
+// Days shown for a month or week, starting on Monday
+function getCalendarDays(anchor: Date, mode: CalendarMode): Date[] {
+	const first = mode === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : anchor;
+	const start = new Date(first.getFullYear(), first.getMonth(), first.getDate() - (first.getDay() + 6) % 7);
+	let count = 7;
+	if (mode === 'month') {
+		const daysInMonth = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+		count = Math.ceil(((first.getDay() + 6) % 7 + daysInMonth) / 7) * 7;
+	}
+	const days: Date[] = [];
+	for (let i = 0; i < count; i++) {
+		days.push(new Date(start.getFullYear(), start.getMonth(), start.getDate() + i));
+	}
+	return days;
+}
+
+interface TaskCalendarProps {
+	plugin: ProjectManagerPlugin;
+	projects: Project[];
+	tasks: Task[];
+	selectedProjectId: string | null;
+	onProjectChange: (projectId: string | null) => void;
+}
+
+const TaskCalendar: React.FC<TaskCalendarProps> = ({ plugin, projects, tasks, selectedProjectId, onProjectChange }) => {
+	const [mode, setMode] = React.useState<CalendarMode>('month');
+	const [anchor, setAnchor] = React.useState(() => new Date());
+	const [activeId, setActiveId] = React.useState<string | null>(null);
+
+	const sensors = useSensors(
+		useSensor(PointerSensor, {
+			activationConstraint: {
+				distance: 3,
+			},
+		})
+	);
+
+	const visibleTasks = selectedProjectId === null ? tasks : tasks.filter(task => task.project_id === selectedProjectId);
+	const days = getCalendarDays(anchor, mode);
+	const today = toLocalDateString(new Date());
+
+	const tasksByDay: Record<string, Task[]> = {};
+	const unscheduled: Task[] = [];
+	visibleTasks.forEach(task => {
+		if (!task.due_date) {
+			unscheduled.push(task);
+			return;
+		}
+		const day = toLocalDateString(new Date(task.due_date));
+		(tasksByDay[day] = tasksByDay[day] || []).push(task);
+	});
+	Object.keys(tasksByDay).forEach(day => tasksByDay[day].sort((a, b) => compareTasks(a, b, 'due')));
+
+	const shift = (direction: number) => {
+		setAnchor(mode === 'month'
+			? new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+			: new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + direction * 7));
+	};
+
+	const title = mode === 'month'
+		? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+		: `Week of ${days[0].toLocaleDateString()}`;
+
+	const handleDragEnd = async (event: DragEndEvent) => {
+		const { active, over } = event;
+		setActiveId(null);
+		if (!over) return;
+
+		const task = visibleTasks.find(t => t.id === active.id);
+		if (!task) return;
+
+		let dueDate: string | null = null;
+		if (over.id !== UNSCHEDULED_DROP_ID) {
+			const day = parseLocalDate(over.id as string);
+			if (!day) return;
+			if (task.due_date) {
+				// Keep the time of day, only the date changes
+				const previous = new Date(task.due_date);
+				if (toLocalDateString(previous) === over.id) return;
+				day.setHours(previous.getHours(), previous.getMinutes());
+			}
+			dueDate = day.toISOString();
+		} else if (!task.due_date) {
+			return;
+		}
+
+		try {
+			await plugin.updateTask(task.id, { due_date: dueDate });
+		} catch (error) {
+			console.error('Failed to reschedule task:', error);
+			new Notice(`Could not reschedule "${task.title}": ${error.message}`);
+		}
+	};
+
+	const draggedTask = activeId ? visibleTasks.find(task => task.id === activeId) : null;
+
+	return React.createElement(DndContext, {
+		sensors,
+		onDragStart: (event: DragStartEvent) => setActiveId(event.active.id as string),
+		onDragEnd: handleDragEnd
+	},
+		React.createElement('div', { className: 'task-calendar' },
+			React.createElement('div', { className: 'calendar-header' },
+				React.createElement(ProjectSelector, {
+					projects: plugin.getSelectableProjects(selectedProjectId),
+					selectedProjectId,
+					onProjectChange,
+					onEditProject: (project: Project) => new ProjectDetailModal(plugin.app, plugin, project).open()
+				}),
+				React.createElement('div', { className: 'calendar-toolbar' },
+					React.createElement('button', { onClick: () => shift(-1), title: 'Previous' }, '‹'),
+					React.createElement('button', { onClick: () => setAnchor(new Date()) }, 'Today'),
+					React.createElement('button', { onClick: () => shift(1), title: 'Next' }, '›'),
+					React.createElement('h3', { className: 'calendar-title' }, title),
+					React.createElement('select', {
+						value: mode,
+						onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setMode(e.target.value as CalendarMode)
+					},
+						React.createElement('option', { value: 'month' }, 'Month'),
+						React.createElement('option', { value: 'week' }, 'Week')
+					)
+				)
+			),
+			React.createElement('div', { className: `calendar-grid calendar-${mode}` },
+				days.slice(0, 7).map(day =>
+					React.createElement('div', { key: `weekday-${day.getDay()}`, className: 'calendar-weekday' },
+						day.toLocaleDateString(undefined, { weekday: 'short' })
+					)
+				),
+				days.map(day => {
+					const key = toLocalDateString(day);
+					return React.createElement(CalendarDay, {
+						key,
+						day: key,
+						label: day.getDate(),
+						tasks: tasksByDay[key] || [],
+						isToday: key === today,
+						isOutside: mode === 'month' && day.getMonth() !== anchor.getMonth(),
+						plugin,
+						selectedProjectId
+					});
+				})
+			),
+			React.createElement(CalendarDropZone, {
+				id: UNSCHEDULED_DROP_ID,
+				className: 'calendar-unscheduled'
+			},
+				React.createElement('div', { className: 'calendar-unscheduled-header' }, `No due date (${unscheduled.length})`),
+				unscheduled.map(task => React.createElement(DraggableCalendarTask, { key: task.id, task, plugin }))
+			)
+		),
+		React.createElement(DragOverlay, null,
+			draggedTask && React.createElement(CalendarTask, { task: draggedTask, plugin, isDragging: true })
+		)
+	);
+};
+
+interface CalendarDropZoneProps {
+	id: string;
+	className: string;
+	onClick?: () => void;
+	children?: React.ReactNode;
+}
+
+const CalendarDropZone: React.FC<CalendarDropZoneProps> = ({ id, className, onClick, children }) => {
+	const { setNodeRef, isOver } = useDroppable({ id });
+
+	return React.createElement('div', {
+		ref: setNodeRef,
+		className: `${className} ${isOver ? 'calendar-over' : ''}`,
+		onClick
+	}, children);
+};
+
+interface CalendarDayProps {
+	day: string;
+	label: number;
+	tasks: Task[];
+	isToday: boolean;
+	isOutside: boolean;
+	plugin: ProjectManagerPlugin;
+	selectedProjectId: string | null;
+}
+
+const CalendarDay: React.FC<CalendarDayProps> = ({ day, label, tasks, isToday, isOutside, plugin, selectedProjectId }) => {
+	// Clicking the empty part of a day creates a task due that day
+	const handleClick = () => {
+		new CreateTaskModal(plugin.app, plugin, selectedProjectId, undefined, day).open();
+	};
+
+	return React.createElement(CalendarDropZone, {
+		id: day,
+		className: `calendar-day ${isToday ? 'is-today' : ''} ${isOutside ? 'is-outside' : ''}`,
+		onClick: handleClick
+	},
+		React.createElement('div', { className: 'calendar-day-label' }, label),
+		tasks.map(task => React.createElement(DraggableCalendarTask, { key: task.id, task, plugin }))
+	);
+};
+
+interface CalendarTaskProps {
+	task: Task;
+	plugin: ProjectManagerPlugin;
+	isDragging?: boolean;
+}
+
+const DraggableCalendarTask: React.FC<CalendarTaskProps> = ({ task, plugin }) => {
+	const { attributes, listeners, setNodeRef, isDragging } = useDraggable({ id: task.id });
+
+	return React.createElement('div', {
+		ref: setNodeRef,
+		...attributes,
+		...listeners,
+		style: { opacity: isDragging ? 0.4 : 1 }
+	},
+		React.createElement(CalendarTask, { task, plugin })
+	);
+};
+
+const CalendarTask: React.FC<CalendarTaskProps> = ({ task, plugin, isDragging }) => {
+	const done = plugin.isDoneStatus(task.status, task.project_id);
+
+	return React.createElement('div', {
+		className: `calendar-task priority-${task.priority} ${done ? 'is-done' : ''} ${isDragging ? 'dragging' : ''}`,
+		title: `${task.title} · ${plugin.getStatusName(task.status, task.project_id)}`,
+		onClick: (e: React.MouseEvent) => {
+			e.stopPropagation();
+			if (!isDragging) {
+				new TaskDetailModal(plugin.app, plugin, task).open();
+			}
+		}
+	}, task.title);
+};
+
+type TimelineScale = 'week' | 'month' | 'quarter';
+
+// Pixels per day and number of days shown at each zoom level
+const TIMELINE_SCALES: Record<TimelineScale, { dayWidth: number; days: number }> = {
+	week: { dayWidth: 40, days: 28 },
+	month: { dayWidth: 14, days: 91 },
+	quarter: { dayWidth: 6, days: 182 }
+};
+
+type TimelineEdge = 'start' | 'end' | 'move';
+
+function startOfDay(date: Date): Date {
+	return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+// Keeps the time of day
+function addDays(date: Date, days: number): Date {
+	const result = new Date(date.getTime());
+	result.setDate(result.getDate() + days);
+	return result;
+}
+
+function daysBetween(from: Date, to: Date): number {
+	return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Works out which date fields change after a bar is dragged. A bar built from a
+ * single date (a task with only a due date, say) keeps that shape when moved,
+ * while dragging its other edge adds the missing date.
+ */
+function planTimelineUpdate(edge: TimelineEdge, hasStart: boolean, hasEnd: boolean, start: Date, end: Date): { start?: string; end?: string } {
+	const update: { start?: string; end?: string } = {};
+	if (edge === 'start' || (edge === 'move' && (hasStart || !hasEnd))) update.start = start.toISOString();
+	if (edge === 'end' || (edge === 'move' && hasEnd)) update.end = end.toISOString();
+	return update;
+}
+
+interface ProjectTimelineProps {
+	plugin: ProjectManagerPlugin;
+	projects: Project[];
+	tasks: Task[];
+}
+
+const ProjectTimeline: React.FC<ProjectTimelineProps> = ({ plugin, projects, tasks }) => {
+	const [scale, setScale] = React.useState<TimelineScale>('month');
+	const [anchor, setAnchor] = React.useState(() => startOfDay(new Date()));
+	const [collapsed, setCollapsed] = React.useState<string[]>([]);
+
+	const { dayWidth, days } = TIMELINE_SCALES[scale];
+	// Today sits a quarter of the way into the visible range
+	const rangeStart = addDays(anchor, -Math.floor(days / 4));
+	const now = new Date();
+	const todayOffset = daysBetween(rangeStart, now);
+
+	const dayTicks: Date[] = [];
+	for (let i = 0; i < days; i++) dayTicks.push(addDays(rangeStart, i));
+	const tickLabel = (day: Date) => {
+		if (scale === 'week') return String(day.getDate());
+		if (scale === 'month') return day.getDay() === 1 ? String(day.getDate()) : '';
+		return day.getDate() === 1 ? day.toLocaleDateString(undefined, { month: 'short' }) : '';
+	};
+
+	const scheduled = (task: Task) => !!(task.start_date || task.due_date);
+	const groups: { id: string; project: Project | null; tasks: Task[] }[] = projects
+		.filter(project => project.status !== 'archived')
+		.map(project => ({ id: project.id, project, tasks: tasks.filter(task => task.project_id === project.id && scheduled(task)) }));
+	const looseTasks = tasks.filter(task => scheduled(task) && !groups.some(group => group.id === task.project_id));
+	if (looseTasks.length > 0) {
+		groups.push({ id: 'none', project: null, tasks: looseTasks });
+	}
+
+	// A task with only one of its dates spans that single day
+	const taskSpan = (task: Task): { start: Date; end: Date } | null => {
+		const start = task.start_date || task.due_date;
+		const end = task.due_date || task.start_date;
+		if (!start || !end) return null;
+		return { start: new Date(start), end: new Date(end) };
+	};
+
+	// Projects without dates of their own span their scheduled tasks
+	const projectSpan = (project: Project, projectTasks: Task[]) => {
+		const start = project.start_date || project.target_date;
+		const end = project.target_date || project.start_date;
+		if (start && end) {
+			return { start: new Date(start), end: new Date(end), derived: false };
+		}
+		const spans = projectTasks.map(taskSpan).filter((span): span is { start: Date; end: Date } => !!span);
+		if (spans.length === 0) return null;
+		return {
+			start: new Date(Math.min(...spans.map(span => span.start.getTime()))),
+			end: new Date(Math.max(...spans.map(span => span.end.getTime()))),
+			derived: true
+		};
+	};
+
+	const rescheduleTask = async (task: Task, edge: TimelineEdge, start: Date, end: Date) => {
+		const update = planTimelineUpdate(edge, !!task.start_date, !!task.due_date, start, end);
+		const updates: Partial<Task> = {};
+		if (update.start) updates.start_date = update.start;
+		if (update.end) updates.due_date = update.end;
+		try {
+			await plugin.updateTask(task.id, updates);
+		} catch (error) {
+			console.error('Failed to reschedule task:', error);
+			new Notice(`Could not reschedule "${task.title}": ${error.message}`);
+		}
+	};
+
+	const rescheduleProject = async (project: Project, derived: boolean, edge: TimelineEdge, start: Date, end: Date) => {
+		const update = planTimelineUpdate(edge, derived || !!project.start_date, derived || !!project.target_date, start, end);
+		const updates: Partial<Project> = {};
+		if (update.start) updates.start_date = update.start;
+		if (update.end) updates.target_date = update.end;
+		try {
+			await plugin.updateProject(project.id, updates);
+		} catch (error) {
+			console.error('Failed to reschedule project:', error);
+			new Notice(`Could not reschedule "${project.name}": ${error.message}`);
+		}
+	};
+
+	const openProjectNote = (project: Project) => {
+		if (project.markdown_file) {
+			plugin.openNote(project.markdown_file);
+		} else {
+			new Notice(`No note is linked to "${project.name}"`);
+		}
+	};
+
+	const toggleGroup = (groupId: string) => {
+		setCollapsed(collapsed.includes(groupId) ? collapsed.filter(id => id !== groupId) : [...collapsed, groupId]);
+	};
+
+	const renderTrack = (bar: React.ReactNode) =>
+		React.createElement('div', { className: 'timeline-track', style: { width: days * dayWidth } },
+			todayOffset >= 0 && todayOffset < days && React.createElement('div', {
+				className: 'timeline-today',
+				style: { left: todayOffset * dayWidth + dayWidth / 2 }
+			}),
+			bar
+		);
+
+	return React.createElement('div', { className: 'project-timeline' },
+		React.createElement('div', { className: 'timeline-toolbar' },
+			React.createElement('button', { onClick: () => setAnchor(addDays(anchor, -Math.floor(days / 2))), title: 'Earlier' }, '‹'),
+			React.createElement('button', { onClick: () => setAnchor(startOfDay(new Date())) }, 'Today'),
+			React.createElement('button', { onClick: () => setAnchor(addDays(anchor, Math.floor(days / 2))), title: 'Later' }, '›'),
+			React.createElement('select', {
+				value: scale,
+				onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setScale(e.target.value as TimelineScale)
+			},
+				React.createElement('option', { value: 'week' }, 'Weeks'),
+				React.createElement('option', { value: 'month' }, 'Months'),
+				React.createElement('option', { value: 'quarter' }, 'Quarters')
+			)
+		),
+		React.createElement('div', { className: 'timeline-body' },
+			React.createElement('div', { className: 'timeline-row timeline-scale' },
+				React.createElement('div', { className: 'timeline-label' }),
+				React.createElement('div', { className: 'timeline-track', style: { width: days * dayWidth } },
+					dayTicks.map((day, index) => {
+						const label = tickLabel(day);
+						return label && React.createElement('span', {
+							key: index,
+							className: 'timeline-tick',
+							style: { left: index * dayWidth }
+						}, label);
+					})
+				)
+			),
+			groups.length === 0 && React.createElement('div', { className: 'timeline-empty' }, 'No projects or scheduled tasks yet'),
+			groups.map(group => {
+				const project = group.project;
+				const span = project ? projectSpan(project, group.tasks) : null;
+				const isCollapsed = collapsed.includes(group.id);
+				const projectOverdue = !!project && !!project.target_date && project.status === 'active'
+					&& daysBetween(new Date(project.target_date), now) > 0;
+
+				return React.createElement('div', { key: group.id, className: 'timeline-group' },
+					React.createElement('div', { className: 'timeline-row timeline-project-row' },
+						React.createElement('div', {
+							className: 'timeline-label timeline-project-label',
+							onClick: () => toggleGroup(group.id)
+						}, `${isCollapsed ? '▸' : '▾'} ${project ? project.name : 'No project'}`),
+						renderTrack(project && span && React.createElement(TimelineBar, {
+							start: span.start,
+							end: span.end,
+							rangeStart,
+							dayWidth,
+							className: `timeline-bar-project ${span.derived ? 'is-derived' : ''} ${projectOverdue ? 'is-overdue' : ''} status-${project.status}`,
+							label: project.name,
+							title: span.derived
+								? `${project.name} (spans its tasks; drag to set dates)`
+								: `${project.name}: ${span.start.toLocaleDateString()} – ${span.end.toLocaleDateString()}`,
+							onClick: () => openProjectNote(project),
+							onChange: (edge, start, end) => rescheduleProject(project, span.derived, edge, start, end)
+						}))
+					),
+					!isCollapsed && group.tasks.map(task => {
+						const taskRange = taskSpan(task);
+						if (!taskRange) return null;
+						const overdue = !!task.due_date && new Date(task.due_date) < now && !plugin.isDoneStatus(task.status, task.project_id);
+						return React.createElement('div', { key: task.id, className: 'timeline-row' },
+							React.createElement('div', { className: 'timeline-label' }, task.title),
+							renderTrack(React.createElement(TimelineBar, {
+								start: taskRange.start,
+								end: taskRange.end,
+								rangeStart,
+								dayWidth,
+								className: `timeline-bar-task priority-${task.priority} ${overdue ? 'is-overdue' : ''} ${plugin.isDoneStatus(task.status, task.project_id) ? 'is-done' : ''}`,
+								label: task.title,
+								title: `${task.title}: ${taskRange.start.toLocaleDateString()} – ${taskRange.end.toLocaleDateString()}${overdue ? ' (overdue)' : ''}`,
+								onClick: () => new TaskDetailModal(plugin.app, plugin, task).open(),
+								onChange: (edge, start, end) => rescheduleTask(task, edge, start, end)
+							}))
+						);
+					})
+				);
+			})
+		)
+	);
+};
+
+interface TimelineBarProps {
+	start: Date;
+	end: Date;
+	rangeStart: Date;
+	dayWidth: number;
+	className: string;
+	label: string;
+	title: string;
+	onClick: () => void;
+	onChange: (edge: TimelineEdge, start: Date, end: Date) => void;
+}
+
+const TimelineBar: React.FC<TimelineBarProps> = ({ start, end, rangeStart, dayWidth, className, label, title, onClick, onChange }) => {
+	const [drag, setDrag] = React.useState<{ edge: TimelineEdge; delta: number } | null>(null);
+	// Removes the window listeners of the drag in progress, if any
+	const endDragRef = React.useRef<(() => void) | null>(null);
+	React.useEffect(() => () => endDragRef.current?.(), []);
+
+	// Applies a drag of `delta` days to one or both ends, never letting them cross
+	const shifted = (edge: TimelineEdge, delta: number) => {
+		let newStart = edge === 'end' ? start : addDays(start, delta);
+		let newEnd = edge === 'start' ? end : addDays(end, delta);
+		if (edge === 'start' && newStart > newEnd) newStart = new Date(newEnd.getTime());
+		if (edge === 'end' && newEnd < newStart) newEnd = new Date(newStart.getTime());
+		return { start: newStart, end: newEnd };
+	};
+
+	const beginDrag = (e: React.PointerEvent, edge: TimelineEdge) => {
+		e.preventDefault();
+		e.stopPropagation();
+		endDragRef.current?.();
+		const originX = e.clientX;
+		let delta = 0;
+		let moved = false;
+
+		const onMove = (event: PointerEvent) => {
+			if (Math.abs(event.clientX - originX) > 3) moved = true;
+			const next = Math.round((event.clientX - originX) / dayWidth);
+			if (next !== delta) {
+				delta = next;
+				setDrag({ edge, delta });
+			}
+		};
+		const endDrag = () => {
+			window.removeEventListener('pointermove', onMove);
+			window.removeEventListener('pointerup', onUp);
+			endDragRef.current = null;
+		};
+		const onUp = () => {
+			endDrag();
+			setDrag(null);
+			if (!moved) {
+				if (edge === 'move') onClick();
+				return;
+			}
+			if (delta !== 0) {
+				const result = shifted(edge, delta);
+				onChange(edge, result.start, result.end);
+			}
+		};
+		window.addEventListener('pointermove', onMove);
+		window.addEventListener('pointerup', onUp);
+		endDragRef.current = endDrag;
+	};
+
+	const shown = drag ? shifted(drag.edge, drag.delta) : { start, end };
+	const left = daysBetween(rangeStart, shown.start) * dayWidth;
+	const width = (daysBetween(shown.start, shown.end) + 1) * dayWidth;
+
+	return React.createElement('div', {
+		className: `timeline-bar ${className} ${drag ? 'is-dragging' : ''}`,
+		style: { left, width },
+		title,
+		onPointerDown: (e: React.PointerEvent) => beginDrag(e, 'move')
+	},
+		React.createElement('div', {
+			className: 'timeline-handle timeline-handle-start',
+			onPointerDown: (e: React.PointerEvent) => beginDrag(e, 'start')
+		}),
+		React.createElement('span', { className: 'timeline-bar-label' }, label),
+		React.createElement('div', {
+			className: 'timeline-handle timeline-handle-end',
+			onPointerDown: (e: React.PointerEvent) => beginDrag(e, 'end')
+		})
+	);
+};
+
+type OverviewSortKey = 'name' | 'status' | 'completion' | 'overdue' | 'next-due' | 'updated';
+
+type OverviewStatusFilter = 'open' | 'all' | Project['status'];
+
+interface ProjectsOverviewProps {
+	plugin: ProjectManagerPlugin;
+	projects: Project[];
+	tasks: Task[];
+}
+
+const ProjectsOverview: React.FC<ProjectsOverviewProps> = ({ plugin, projects, tasks }) => {
+	const [sortKey, setSortKey] = React.useState<OverviewSortKey>('name');
+	const [statusFilter, setStatusFilter] = React.useState<OverviewStatusFilter>('open');
+
+	// Recomputed whenever the tasks change
+	const stats = React.useMemo(() => {
+		const result: Record<string, ProjectStats> = {};
+		projects.forEach(project => result[project.id] = plugin.getProjectStats(project.id));
+		return result;
+	}, [projects, tasks]);
+
+	const completion = (project: Project) => {
+		const { done, total } = stats[project.id];
+		return total === 0 ? 0 : Math.round(done / total * 100);
+	};
+
+	const compare = (a: Project, b: Project): number => {
+		switch (sortKey) {
+			case 'status': return a.status.localeCompare(b.status);
+			case 'completion': return completion(b) - completion(a);
+			case 'overdue': return stats[b.id].overdue - stats[a.id].overdue;
+			case 'next-due': {
+				const aDue = stats[a.id].nextDue, bDue = stats[b.id].nextDue;
+				if (!aDue || !bDue) return aDue ? -1 : bDue ? 1 : 0;
+				return compareTasks(aDue, bDue, 'due');
+			}
+			case 'updated': return b.updated_at.localeCompare(a.updated_at);
+			default: return a.name.localeCompare(b.name);
+		}
+	};
+
+	const visible = projects
+		.filter(project => statusFilter === 'all'
+			|| (statusFilter === 'open' ? project.status !== 'archived' : project.status === statusFilter))
+		.sort((a, b) => compare(a, b) || a.name.localeCompare(b.name));
+
+	const openNote = (e: React.MouseEvent, path: string) => {
+		e.stopPropagation();
+		plugin.openNote(path);
+	};
+
+	return React.createElement('div', { className: 'projects-overview' },
+		React.createElement('div', { className: 'overview-toolbar' },
+			React.createElement('button', {
+				className: 'create-project-btn',
+				onClick: () => new CreateProjectModal(plugin.app, plugin).open()
+			}, '+ New Project'),
+			React.createElement('label', null, 'Show ',
+				React.createElement('select', {
+					value: statusFilter,
+					onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setStatusFilter(e.target.value as OverviewStatusFilter)
+				},
+					React.createElement('option', { value: 'open' }, 'Active and completed'),
+					React.createElement('option', { value: 'active' }, 'Active'),
+					React.createElement('option', { value: 'completed' }, 'Completed'),
+					React.createElement('option', { value: 'archived' }, 'Archived'),
+					React.createElement('option', { value: 'all' }, 'All')
+				)
+			),
+			React.createElement('label', null, 'Sort by ',
+				React.createElement('select', {
+					value: sortKey,
+					onChange: (e: React.ChangeEvent<HTMLSelectElement>) => setSortKey(e.target.value as OverviewSortKey)
+				},
+					React.createElement('option', { value: 'name' }, 'Name'),
+					React.createElement('option', { value: 'status' }, 'Status'),
+					React.createElement('option', { value: 'completion' }, 'Completion'),
+					React.createElement('option', { value: 'overdue' }, 'Overdue tasks'),
+					React.createElement('option', { value: 'next-due' }, 'Next due'),
+					React.createElement('option', { value: 'updated' }, 'Recently updated')
+				)
+			)
+		),
+		visible.length === 0 && React.createElement('div', { className: 'overview-empty' }, 'No projects to show'),
+		React.createElement('div', { className: 'overview-list' },
+			visible.map(project => {
+				const projectStats = stats[project.id];
+				const nextDue = projectStats.nextDue;
+				const noteFile = project.markdown_file;
+				const percent = completion(project);
+				const columns = plugin.getWorkflow(project.id).columns;
+				// Statuses outside the project's workflow are still counted
+				const statusIds = [
+					...columns.map(column => column.id),
+					...Object.keys(projectStats.byStatus).filter(id => !columns.some(column => column.id === id))
+				];
+
+				return React.createElement('div', {
+					key: project.id,
+					className: `overview-card status-${project.status}`,
+					onClick: () => plugin.openProjectKanban(project.id),
+					title: 'Open this project on the Kanban board'
+				},
+					React.createElement('div', { className: 'overview-card-header' },
+						React.createElement('h3', null, project.name),
+						React.createElement('span', { className: `project-status status-${project.status}` }, project.status),
+						React.createElement('button', {
+							className: 'edit-project-btn',
+							onClick: (e: React.MouseEvent) => {
+								e.stopPropagation();
+								new ProjectDetailModal(plugin.app, plugin, project).open();
+							}
+						}, 'Edit')
+					),
+					React.createElement('div', { className: 'overview-progress' },
+						React.createElement('div', { className: 'overview-progress-bar', style: { width: `${percent}%` } })
+					),
+					React.createElement('div', { className: 'overview-summary' },
+						React.createElement('span', null, `${percent}% complete (${projectStats.done}/${projectStats.total})`),
+						projectStats.overdue > 0 && React.createElement('span', { className: 'overview-overdue' }, `${projectStats.overdue} overdue`)
+					),
+					React.createElement('div', { className: 'overview-status-counts' },
+						statusIds
+							.filter(id => projectStats.byStatus[id])
+							.map(id => React.createElement('span', { key: id, className: `overview-status-count status-${id}` },
+								`${plugin.getStatusName(id, project.id)}: ${projectStats.byStatus[id]}`
+							))
+					),
+					nextDue && React.createElement('div', {
+						className: 'overview-next-due',
+						onClick: (e: React.MouseEvent) => {
+							e.stopPropagation();
+							new TaskDetailModal(plugin.app, plugin, nextDue).open();
+						}
+					}, `Next due: ${nextDue.title} (${new Date(nextDue.due_date).toLocaleDateString()})`),
+					React.createElement('div', { className: 'overview-links' },
+						noteFile && React.createElement('button', {
+							className: 'link-btn markdown-link',
+							onClick: (e: React.MouseEvent) => openNote(e, noteFile),
+							title: 'Open project note'
+						}, '📝 Note'),
+						!project.markdown_file && React.createElement('button', {
+							className: 'link-btn create-note-btn',
+							onClick: (e: React.MouseEvent) => {
+								e.stopPropagation();
+								plugin.createNoteFromProject(project);
+							},
+							title: 'Create project note'
+						}, '📄 Create note'),
+						project.github_repo && React.createElement('a', {
+							className: 'link-btn github-link',
+							href: `${getGitHubWebUrl(plugin.settings.githubApiUrl)}/${project.github_repo}`,
+							onClick: (e: React.MouseEvent) => e.stopPropagation(),
+							target: '_blank'
+						}, `🔗 ${project.github_repo}`)
+					)
+				);
+			})
+		)
+	);
+};